@@ -1,8 +1,41 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { GameMode, QLearningStats, Direction, ItemType } from './types';
-import { SnakeGame, GRID_SIZE } from './game/SnakeGame';
-import { QLearningAgent } from './ai/QLearningAgent';
+import { GameMode, QLearningStats, GeneticStats, Direction, ItemType, AgentConfig, Replay, Demonstration, CurriculumConfig, EvaluationReport, Leaderboard, TournamentSetup, TournamentStanding } from './types';
+import { SnakeGame } from './game/SnakeGame';
+import { QLearningAgent, QLEARNING_STORAGE_KEYS } from './ai/QLearningAgent';
+import { QLearningTrainer, STATS_STORAGE_KEY } from './ai/QLearningTrainer';
+import { DQNAgent } from './ai/DQNAgent';
+import { Q_VALUE_AGENTS, Q_VALUE_AGENT_STORAGE_KEYS, QValueAgent, QValueAgentKind, createQValueAgent } from './ai/QValueAgent';
+import { GeneticAgent } from './ai/GeneticAgent';
+import { PlannerAgent, recordPlannerDemos } from './ai/PlannerAgent';
+import { PLANNERS, PlannerKind } from './ai/planners';
+import { ACTIONS } from './env/Environment';
+import { ReplayPlayer } from './game/ReplayPlayer';
+import { InputBuffer } from './game/InputBuffer';
+import { parseReplay } from './game/Replay';
+import ReplayControls from './components/ReplayControls';
+import TrainingControls from './components/TrainingControls';
+import ModelControls from './components/ModelControls';
+import CheckpointPanel from './components/CheckpointPanel';
+import AgentConfigPanel from './components/AgentConfigPanel';
+import HumanControls, { HumanStatus } from './components/HumanControls';
+import DemoPanel from './components/DemoPanel';
+import CurriculumPanel from './components/CurriculumPanel';
+import EvaluationPanel from './components/EvaluationPanel';
+import TournamentPanel from './components/TournamentPanel';
+import ArenaPanel, { ARENA_COLORS } from './components/ArenaPanel';
+import { describeStage, stageCount } from './ai/curriculum';
+import { EvaluationPolicy, evaluatePolicy, geneticPolicy, modelPolicy, plannerPolicy, valueAgentPolicy } from './ai/evaluation';
+import { TournamentEntrant, mergeLeaderboard, runTournament } from './ai/tournament';
+import { ArenaMatch } from './ai/arena';
+import { describeSchedule } from './ai/schedules';
+import { TABULAR_ALGORITHMS, usesTraces } from './ai/agentConfig';
+import { CheckpointMeta, CheckpointStore, StoredDemonstration } from './storage/CheckpointStore';
+import { MemoryStore } from './storage/KeyValueStore';
+import { ModelAgentType } from './ai/modelFile';
+import { BoardFrame, TrainingWorkerMessage, TrainingWorkerRequest, toArenaFrame, toBoardFrame } from './workers/protocol';
+import { applyStoreChanges } from './workers/RemoteStore';
+import { downloadFile } from './utils/download';
 
 /**
  * A simple SVG Line Chart component for real-time visualization
@@ -44,42 +77,256 @@ const SimpleChart: React.FC<{ data: number[], color: string, label: string, heig
   );
 };
 
+const RUN_STORAGE_KEY = 'cs_run';
+const DEFAULT_RUN = 'default';
+const AUTO_CHECKPOINT_EPISODES = 1000;
+const AUTO_CHECKPOINT_GENERATIONS = 25;
+const AUTO_CHECKPOINTS_KEPT = 10;
+const HUMAN_STEPS_PER_SECOND = 10; // Halved while ICE is in effect
+const ARENA_STEPS_PER_SECOND = 20;
+const PLANNER_DEMO_STEPS = 5000; // Recorded planner episodes are cut short here; the good ones run for tens of thousands of steps
+const HUMAN_KEYS: Record<string, Direction> = {
+  ArrowUp: 'UP', w: 'UP', W: 'UP',
+  ArrowDown: 'DOWN', s: 'DOWN', S: 'DOWN',
+  ArrowLeft: 'LEFT', a: 'LEFT', A: 'LEFT',
+  ArrowRight: 'RIGHT', d: 'RIGHT', D: 'RIGHT'
+};
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<GameMode>(GameMode.AI_WATCH);
   const modeRef = useRef<GameMode>(mode);
   const [currentScore, setCurrentScore] = useState(0);
   const [level, setLevel] = useState(1);
-  const [qStats, setQStats] = useState<QLearningStats>(() => {
-    const saved = localStorage.getItem('qs_v6_stats');
-    return saved ? JSON.parse(saved) : {
-      episodes: 0, epsilon: 1.0, totalReward: 0, qTableSize: 0,
-      bestScoreEver: 0, avgScoreLast100: 0, currentLevel: 1, totalStepsEver: 0, levelSuccessRate: 0,
-      scoreHistory: [], epsilonHistory: []
-    };
-  });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const qAgentRef = useRef<QLearningAgent>(new QLearningAgent());
+  // Models persist to IndexedDB per run; each agent's own store is just the hand-off point for the worker
+  const [trainers] = useState<Record<QValueAgentKind, QLearningTrainer>>(() => ({
+    qlearning: new QLearningTrainer(new QLearningAgent({ store: new MemoryStore() })),
+    dqn: new QLearningTrainer(new DQNAgent({ store: new MemoryStore() }))
+  }));
+  // Which Q-value agent AI WATCH and TRAINING run; callbacks read the ref so they survive a switch
+  const [valueAgent, setValueAgent] = useState<QValueAgentKind>('qlearning');
+  const valueAgentRef = useRef<QValueAgentKind>(valueAgent);
+  const trainer = trainers[valueAgent];
+  const [qStats, setQStats] = useState<QLearningStats>(() => trainers.qlearning.getStats());
+  const [agentConfig, setAgentConfig] = useState<AgentConfig>(() => trainers.qlearning.agent.config);
+  const [agentConfigError, setAgentConfigError] = useState<string | null>(null);
+  const [curriculumError, setCurriculumError] = useState<string | null>(null);
+  // Non-learning baselines, watchable in AI WATCH in place of a Q-value agent
+  const [planners] = useState<Record<PlannerKind, PlannerAgent>>(() => ({
+    greedy: new PlannerAgent('greedy'),
+    astar: new PlannerAgent('astar'),
+    hamiltonian: new PlannerAgent('hamiltonian')
+  }));
+  const [watchPlanner, setWatchPlanner] = useState<PlannerKind | null>(null);
+  const watchPlannerRef = useRef<PlannerKind | null>(null);
+  // Built once, on first render: the initializer keeps a full population from being rebuilt on every render
+  const [geneticAgent] = useState(() => new GeneticAgent());
+  const [geneticStats, setGeneticStats] = useState<GeneticStats>(() => geneticAgent.getStats());
   const requestRef = useRef<number>(0);
   const lastUpdateRef = useRef<number>(0);
-  const levelClearsRef = useRef<number>(0);
   const [currentQValues, setCurrentQValues] = useState<number[]>([0, 0, 0, 0]);
 
-  const statsInternalRef = useRef<QLearningStats>(qStats);
-  const localScoreHistoryRef = useRef<number[]>(qStats.scoreHistory);
-  const localEpsilonHistoryRef = useRef<number[]>(qStats.epsilonHistory);
+  // HUMAN mode plays its own recorded game from the keyboard
+  const humanGameRef = useRef<SnakeGame | null>(null);
+  if (!humanGameRef.current) humanGameRef.current = new SnakeGame(1, { record: true });
+  const [humanInput] = useState(() => new InputBuffer());
+  const [humanStatus, setHumanStatus] = useState<HumanStatus>('ready');
+  const humanStatusRef = useRef<HumanStatus>('ready');
+  const [humanLevel, setHumanLevel] = useState(1);
+  const humanLevelRef = useRef(1);
+  const [humanRun, setHumanRun] = useState<Replay | null>(null); // Finished run not yet saved as a demo
+  const [humanMessage, setHumanMessage] = useState<string | null>(null);
+  const [humanError, setHumanError] = useState<string | null>(null);
+
+  // The run's saved demonstrations, which both Q-value agents (and the worker) learn from
+  const [demos, setDemos] = useState<StoredDemonstration[]>([]);
+  const demosRef = useRef<Demonstration[]>([]);
+  const [demoMessage, setDemoMessage] = useState<string | null>(null);
+  const [demoError, setDemoError] = useState<string | null>(null);
+  const [evaluation, setEvaluation] = useState<EvaluationReport | null>(null);
+  const [evaluationProgress, setEvaluationProgress] = useState<string | null>(null);
+  const [evaluationError, setEvaluationError] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [tournamentProgress, setTournamentProgress] = useState<string | null>(null);
+  const [tournamentError, setTournamentError] = useState<string | null>(null);
+  // A leaderboard entry's best run, played back in AI WATCH in place of the live agent
+  const [showcase, setShowcase] = useState<TournamentStanding | null>(null);
+  const showcaseRef = useRef<ReplayPlayer | null>(null);
+  const arenaRef = useRef<ArenaMatch | null>(null);
+  const [arenaSteps, setArenaSteps] = useState(0);
+  const [arenaError, setArenaError] = useState<string | null>(null);
+
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const [replayCursor, setReplayCursor] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const replayPlayingRef = useRef(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const replaySpeedRef = useRef(1);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // TRAINING runs in a worker; the page only sees throttled stats and board frames
+  const workerRef = useRef<Worker | null>(null);
+  const workerAgentRef = useRef<QValueAgentKind>('qlearning');
+  const trainingFrameRef = useRef<BoardFrame | null>(null);
+  const [trainingRunning, setTrainingRunning] = useState(true);
+  const [stepsPerTick, setStepsPerTick] = useState(7500);
+  const [workerStepsPerSecond, setWorkerStepsPerSecond] = useState(0);
+  const [workerError, setWorkerError] = useState<string | null>(null);
+
+  const [modelMessage, setModelMessage] = useState<string | null>(null);
+  const [modelError, setModelError] = useState<string | null>(null);
+
+  // Switching runs reloads the page, so the run is fixed for the lifetime of the app
+  const [run] = useState(() => localStorage.getItem(RUN_STORAGE_KEY) || DEFAULT_RUN);
+  const checkpointStoreRef = useRef<CheckpointStore | null>(null);
+  const lastAutoCheckpointRef = useRef<Record<ModelAgentType, number>>({ qlearning: 0, genetic: 0, dqn: 0 });
+  const purgingRef = useRef(false);
+  const [runs, setRuns] = useState<string[]>([]);
+  const [checkpoints, setCheckpoints] = useState<CheckpointMeta[]>([]);
+  const [checkpointError, setCheckpointError] = useState<string | null>(null);
+
+  const postToWorker = useCallback((request: TrainingWorkerRequest) => {
+    workerRef.current?.postMessage(request);
+  }, []);
 
   useEffect(() => {
     modeRef.current = mode;
+    // Only watched episodes are worth keeping; recording during training is pure overhead
+    (Object.keys(trainers) as QValueAgentKind[]).forEach(kind => { trainers[kind].agent.recordEpisodes = mode === GameMode.AI_WATCH; });
+    (Object.keys(planners) as PlannerKind[]).forEach(kind => { planners[kind].recordEpisodes = mode === GameMode.AI_WATCH; });
+    showcaseRef.current = null;
+    setShowcase(null);
+  }, [mode, trainers, planners]);
+
+  useEffect(() => {
+    // Something to watch on first entering the arena: A* against Greedy
+    if (mode === GameMode.ARENA && !arenaRef.current) startArena(['planner:astar', 'planner:greedy'], 1, 1);
   }, [mode]);
 
+  useEffect(() => {
+    replayPlayingRef.current = replayPlaying;
+    replaySpeedRef.current = replaySpeed;
+  }, [replayPlaying, replaySpeed]);
+
+  const getActiveGame = useCallback((m: GameMode): SnakeGame => {
+    if (m === GameMode.EVOLUTION) return geneticAgent.game;
+    if (m === GameMode.REPLAY && replayPlayerRef.current) return replayPlayerRef.current.game;
+    if (m === GameMode.HUMAN) return humanGameRef.current!;
+    if (m === GameMode.AI_WATCH && showcaseRef.current) return showcaseRef.current.game;
+    if (m === GameMode.AI_WATCH && watchPlannerRef.current) return planners[watchPlannerRef.current].game;
+    return trainers[valueAgentRef.current].agent.game;
+  }, [geneticAgent, trainers, planners]);
+
+  const adoptDemos = useCallback((list: StoredDemonstration[]) => {
+    demosRef.current = list;
+    setDemos(list);
+    (Object.keys(trainers) as QValueAgentKind[]).forEach(kind => trainers[kind].agent.setDemonstrations(list));
+  }, [trainers]);
+
+  const refreshCheckpoints = useCallback(async (agentType: ModelAgentType) => {
+    const store = checkpointStoreRef.current;
+    if (!store) return;
+    setCheckpoints(await store.list(run, agentType));
+    setRuns(await store.listRuns());
+  }, [run]);
+
+  const saveCheckpoint = useCallback(async (agentType: ModelAgentType, name: string, kind: CheckpointMeta['kind']) => {
+    const store = checkpointStoreRef.current;
+    if (!store) return;
+    const source = agentType === 'genetic' ? geneticAgent : trainers[agentType];
+    const stats = source.getStats();
+    const model = source.exportModel();
+    await store.saveCheckpoint({ run, agentType, name, kind, trainingSteps: stats.totalStepsEver, stats }, model);
+    if (kind === 'auto') await store.pruneAutoCheckpoints(run, agentType, AUTO_CHECKPOINTS_KEPT);
+  }, [run, trainers, geneticAgent]);
+
+  /** Saves every agent as the run's latest state and takes any auto checkpoints that are due. */
+  const persistRun = useCallback(async () => {
+    const store = checkpointStoreRef.current;
+    if (!store || purgingRef.current) return;
+    const updatedAt = new Date().toISOString();
+    for (const kind of Object.keys(trainers) as QValueAgentKind[]) {
+      // The Q-table is always saved so a fresh run shows up; an untouched DQN isn't worth restoring
+      if (kind !== 'qlearning' && trainers[kind].agent.totalStepsEver === 0) continue;
+      await store.saveLatest({ run, agentType: kind, model: trainers[kind].exportModel(), stats: trainers[kind].getStats(), updatedAt });
+    }
+    // An untrained population isn't worth restoring
+    if (geneticAgent.generation > 0) {
+      await store.saveLatest({ run, agentType: 'genetic', model: geneticAgent.exportModel(), stats: geneticAgent.getStats(), updatedAt });
+    }
+
+    const last = lastAutoCheckpointRef.current;
+    let saved = false;
+    for (const kind of Object.keys(trainers) as QValueAgentKind[]) {
+      const episodes = trainers[kind].getStats().episodes;
+      if (episodes - last[kind] >= AUTO_CHECKPOINT_EPISODES) {
+        last[kind] = episodes;
+        await saveCheckpoint(kind, `Auto · ${episodes.toLocaleString()} episodes`, 'auto');
+        saved = true;
+      }
+    }
+    if (geneticAgent.generation - last.genetic >= AUTO_CHECKPOINT_GENERATIONS) {
+      last.genetic = geneticAgent.generation;
+      await saveCheckpoint('genetic', `Auto · generation ${geneticAgent.generation}`, 'auto');
+      saved = true;
+    }
+    if (saved) await refreshCheckpoints(modeRef.current === GameMode.EVOLUTION ? 'genetic' : valueAgentRef.current);
+  }, [run, trainers, geneticAgent, saveCheckpoint, refreshCheckpoints]);
+
+  useEffect(() => {
+    let cancelled = false;
+    CheckpointStore.open().then(async store => {
+      if (cancelled) return;
+      const [qLatest, dqnLatest, geneticLatest, knownRuns] = await Promise.all([
+        store.loadLatest(run, 'qlearning'), store.loadLatest(run, 'dqn'), store.loadLatest(run, 'genetic'), store.listRuns()
+      ]);
+      checkpointStoreRef.current = store;
+      if (qLatest) {
+        trainers.qlearning.importModel(qLatest.model);
+      } else if (knownRuns.length === 0) {
+        // Models saved before checkpoints existed live in localStorage; move them into this run once
+        const legacyKeys = [...QLEARNING_STORAGE_KEYS, STATS_STORAGE_KEY];
+        const agentStore = trainers.qlearning.agent.store;
+        legacyKeys.forEach(key => {
+          const value = localStorage.getItem(key);
+          if (value !== null) agentStore.setItem(key, value);
+        });
+        trainers.qlearning.reload();
+        await persistRun();
+        legacyKeys.forEach(key => localStorage.removeItem(key));
+      }
+      if (dqnLatest) trainers.dqn.importModel(dqnLatest.model);
+      if (geneticLatest) geneticAgent.importModel(geneticLatest.model);
+      lastAutoCheckpointRef.current = {
+        qlearning: trainers.qlearning.getStats().episodes, dqn: trainers.dqn.getStats().episodes, genetic: geneticAgent.generation
+      };
+      try {
+        adoptDemos(await store.listDemos(run));
+      } catch (e) {
+        // Still listed so they can be cleared, but not learned from
+        setDemoError(e instanceof Error ? e.message : String(e));
+      }
+      setLeaderboard(await store.loadLeaderboard(run));
+      const active = trainers[valueAgentRef.current];
+      setQStats(active.getStats());
+      setAgentConfig(active.agent.config);
+      setGeneticStats(geneticAgent.getStats());
+      await refreshCheckpoints(modeRef.current === GameMode.EVOLUTION ? 'genetic' : valueAgentRef.current);
+    }).catch(e => setCheckpointError(`Saving disabled: ${e instanceof Error ? e.message : String(e)}`));
+    return () => { cancelled = true; };
+  }, [run, trainers, geneticAgent, persistRun, refreshCheckpoints, adoptDemos]);
+
   useEffect(() => {
     const saveInterval = setInterval(() => {
-      qAgentRef.current.saveToStorage();
-      localStorage.setItem('qs_v6_stats', JSON.stringify(statsInternalRef.current));
+      persistRun().catch(e => setCheckpointError(e instanceof Error ? e.message : String(e)));
     }, 5000);
     return () => clearInterval(saveInterval);
-  }, []);
+  }, [persistRun]);
+
+  useEffect(() => {
+    refreshCheckpoints(mode === GameMode.EVOLUTION ? 'genetic' : valueAgent);
+  }, [mode, valueAgent, refreshCheckpoints]);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -87,19 +334,24 @@ const App: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const cellSize = canvas.width / GRID_SIZE;
     ctx.fillStyle = '#010103';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    const activeGame = qAgentRef.current.game;
-    const state = activeGame.state;
+    const isTraining = modeRef.current === GameMode.TRAINING;
+    if (isTraining && !trainingFrameRef.current) return;
+    const arena = modeRef.current === GameMode.ARENA ? arenaRef.current : null;
+    const board = isTraining ? trainingFrameRef.current! : arena ? toArenaFrame(arena.game) : toBoardFrame(getActiveGame(modeRef.current));
+    const state = board.state;
+    const cellSize = Math.min(canvas.width / board.width, canvas.height / board.height);
 
     // Subtle Grid
     ctx.strokeStyle = '#0a0a20';
     ctx.lineWidth = 1;
-    for (let i = 0; i <= GRID_SIZE; i++) {
-      ctx.beginPath(); ctx.moveTo(i * cellSize, 0); ctx.lineTo(i * cellSize, canvas.height); ctx.stroke();
-      ctx.beginPath(); ctx.moveTo(0, i * cellSize); ctx.lineTo(canvas.width, i * cellSize); ctx.stroke();
+    for (let i = 0; i <= board.width; i++) {
+      ctx.beginPath(); ctx.moveTo(i * cellSize, 0); ctx.lineTo(i * cellSize, board.height * cellSize); ctx.stroke();
+    }
+    for (let i = 0; i <= board.height; i++) {
+      ctx.beginPath(); ctx.moveTo(0, i * cellSize); ctx.lineTo(board.width * cellSize, i * cellSize); ctx.stroke();
     }
 
     // Walls
@@ -172,9 +424,49 @@ const App: React.FC = () => {
       }
     });
 
-    // Vision rays
-    if (modeRef.current === GameMode.AI_WATCH) {
-      const vision = activeGame.getVisionExtended();
+    // Arena snakes in their scoreboard colors; the dead stay on the board, faded, under the living
+    const arenaSnakes = (board.snakes ?? []).map((s, k) => ({ s, color: ARENA_COLORS[k] }));
+    arenaSnakes.sort((a, b) => Number(a.s.alive) - Number(b.s.alive)).forEach(({ s, color }) => {
+      ctx.globalAlpha = s.alive ? 1 : 0.25;
+      s.body.forEach((p, i) => {
+        const isHead = i === 0;
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.roundRect(p.x * cellSize + 1, p.y * cellSize + 1, cellSize - 2, cellSize - 2, isHead ? 14 : 7);
+        ctx.fill();
+        if (isHead) {
+          ctx.fillStyle = 'white';
+          ctx.fillRect(p.x * cellSize + cellSize*0.25, p.y * cellSize + cellSize*0.3, cellSize*0.15, cellSize*0.15);
+          ctx.fillRect(p.x * cellSize + cellSize*0.6, p.y * cellSize + cellSize*0.3, cellSize*0.15, cellSize*0.15);
+        }
+      });
+      ctx.globalAlpha = 1;
+    });
+
+    // A planner's route replaces the vision rays: solid when it is on plan, dashed amber on a fallback
+    const planner = modeRef.current === GameMode.AI_WATCH && watchPlannerRef.current && !showcaseRef.current ? planners[watchPlannerRef.current] : null;
+    if (planner && !state.isGameOver) {
+      const { path, fallback } = planner.nextMove;
+      const center = (v: number) => (v + 0.5) * cellSize;
+      ctx.beginPath();
+      ctx.setLineDash(fallback ? [4, 4] : []);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = fallback ? 'rgba(251, 191, 36, 0.6)' : 'rgba(52, 211, 153, 0.5)';
+      let prev = state.snake[0];
+      ctx.moveTo(center(prev.x), center(prev.y));
+      path.forEach(p => {
+        // Don't draw a wrap-around step across the whole board
+        if (Math.abs(p.x - prev.x) + Math.abs(p.y - prev.y) > 1) ctx.moveTo(center(p.x), center(p.y));
+        else ctx.lineTo(center(p.x), center(p.y));
+        prev = p;
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Vision rays (these are also the GeneticAgent's network inputs)
+    if (!isTraining && !planner && !board.snakes && modeRef.current !== GameMode.HUMAN) {
+      const vision = getActiveGame(modeRef.current).getVisionExtended();
       const head = state.snake[0];
       const neck = state.snake[1];
       let forward = { x: 0, y: -1 };
@@ -203,79 +495,636 @@ const App: React.FC = () => {
         ctx.setLineDash([]);
       });
     }
-  }, []);
+  }, [getActiveGame, planners]);
+
+  const syncReplayView = useCallback(() => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    setReplayCursor(player.cursor);
+    setCurrentScore(player.game.state.score);
+    setLevel(player.game.state.level);
+    setCurrentQValues([...trainers[valueAgentRef.current].agent.getQValuesFor(player.game)]);
+    draw();
+  }, [draw, trainers]);
 
   const animate = useCallback((time: number) => {
-    const isWatch = modeRef.current === GameMode.AI_WATCH;
-    const isTraining = modeRef.current === GameMode.TRAINING;
-    
     const delta = time - lastUpdateRef.current;
-    const activeGame = qAgentRef.current.game;
-    const fpsLimit = isWatch ? (activeGame.state.slowEffectSteps > 0 ? 10 : 35) : 0;
 
-    if (isTraining || delta > 1000 / (fpsLimit || 10000)) {
-      lastUpdateRef.current = time;
-      
-      const iterations = isTraining ? 7500 : 1;
-      let batchEpisodes = 0;
-
-      for (let i = 0; i < iterations; i++) {
-        const game = qAgentRef.current.game;
-        if (game.state.isGameOver) {
-          batchEpisodes++;
-          const score = game.state.score;
-          localScoreHistoryRef.current.push(score);
-          if (localScoreHistoryRef.current.length > 500) localScoreHistoryRef.current.shift();
-          
-          if (localScoreHistoryRef.current.length % 8 === 0) {
-             localEpsilonHistoryRef.current.push(qAgentRef.current.epsilon);
-             if (localEpsilonHistoryRef.current.length > 500) localEpsilonHistoryRef.current.shift();
+    if (modeRef.current === GameMode.EVOLUTION) {
+      // Each update steps every live genome, so the batch is much smaller than TRAINING's
+      if (delta > 1000 / 30) {
+        lastUpdateRef.current = time;
+        for (let i = 0; i < 100; i++) geneticAgent.update();
+        const leaderGame = geneticAgent.game;
+        setGeneticStats(geneticAgent.getStats());
+        setCurrentScore(leaderGame.state.score);
+        setLevel(leaderGame.state.level);
+        setCurrentQValues(geneticAgent.getLeaderOutputs());
+        draw();
+      }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+
+    if (modeRef.current === GameMode.REPLAY) {
+      const player = replayPlayerRef.current;
+      if (player && replayPlayingRef.current && delta > 1000 / (35 * replaySpeedRef.current)) {
+        lastUpdateRef.current = time;
+        // Above ~60 steps/s a single step per frame can't keep up
+        const stepsPerFrame = Math.max(1, Math.round((35 * replaySpeedRef.current) / 60));
+        for (let i = 0; i < stepsPerFrame; i++) player.stepForward();
+        if (player.atEnd) setReplayPlaying(false);
+        syncReplayView();
+      }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+
+    if (modeRef.current === GameMode.HUMAN) {
+      const game = humanGameRef.current!;
+      const stepsPerSecond = game.state.slowEffectSteps > 0 ? HUMAN_STEPS_PER_SECOND / 2 : HUMAN_STEPS_PER_SECOND;
+      if (delta > 1000 / stepsPerSecond) {
+        lastUpdateRef.current = time;
+        if (humanStatusRef.current === 'playing') {
+          game.step(humanInput.next(game));
+          if (game.state.isGameOver) {
+            humanStatusRef.current = 'over';
+            setHumanStatus('over');
+            setHumanRun(game.replay);
           }
-          qAgentRef.current.reset();
+          setCurrentScore(game.state.score);
+          setLevel(game.state.level);
+          // What the selected agent would do in the player's position
+          setCurrentQValues([...trainers[valueAgentRef.current].agent.getQValuesFor(game)]);
         }
-        
-        const oldLevel = qAgentRef.current.game.state.level;
-        qAgentRef.current.update();
-        if (qAgentRef.current.game.state.level > oldLevel) levelClearsRef.current++;
+        draw();
       }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
 
-      const recentScores = localScoreHistoryRef.current.slice(-100);
-      const avg = recentScores.length > 0 ? (recentScores.reduce((a, b) => a + b, 0) / recentScores.length) : 0;
-      
-      const newStats: QLearningStats = {
-        ...statsInternalRef.current,
-        episodes: statsInternalRef.current.episodes + batchEpisodes,
-        epsilon: qAgentRef.current.epsilon,
-        bestScoreEver: Math.max(statsInternalRef.current.bestScoreEver, ...localScoreHistoryRef.current.slice(-Math.max(1, batchEpisodes))),
-        qTableSize: qAgentRef.current.qTable.size,
-        avgScoreLast100: parseFloat(avg.toFixed(2)),
-        currentLevel: qAgentRef.current.game.state.level,
-        totalStepsEver: qAgentRef.current.totalStepsEver,
-        levelSuccessRate: parseFloat(((levelClearsRef.current / Math.max(1, statsInternalRef.current.episodes + batchEpisodes)) * 100).toFixed(2)),
-        scoreHistory: [...localScoreHistoryRef.current],
-        epsilonHistory: [...localEpsilonHistoryRef.current]
-      };
+    if (modeRef.current === GameMode.ARENA) {
+      const match = arenaRef.current;
+      if (match && delta > 1000 / ARENA_STEPS_PER_SECOND) {
+        lastUpdateRef.current = time;
+        // The final board stays up until the next match starts
+        if (!match.isOver) {
+          match.step();
+          setArenaSteps(match.game.state.steps);
+          setCurrentScore(Math.max(...match.game.state.snakes.map(s => s.score)));
+        }
+        draw();
+      }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
 
-      statsInternalRef.current = newStats;
-      setQStats(newStats);
-      setCurrentScore(qAgentRef.current.game.state.score);
-      setLevel(qAgentRef.current.game.state.level);
-      
-      if (isWatch) {
-        setCurrentQValues(qAgentRef.current.getCurrentStateQValues());
+    if (modeRef.current === GameMode.TRAINING) {
+      // The worker drives this mode; its stats and frames arrive as messages
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+
+    const showcasePlayer = showcaseRef.current;
+    if (showcasePlayer) {
+      const fpsLimit = showcasePlayer.game.state.slowEffectSteps > 0 ? 10 : 35;
+      if (delta > 1000 / fpsLimit) {
+        lastUpdateRef.current = time;
+        // The last frame stays up until the run is closed
+        if (!showcasePlayer.atEnd) showcasePlayer.stepForward();
+        setCurrentScore(showcasePlayer.game.state.score);
+        setLevel(showcasePlayer.game.state.level);
         draw();
-      } else if (isTraining && Math.random() < 0.05) {
+      }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+
+    const planner = watchPlannerRef.current ? planners[watchPlannerRef.current] : null;
+    if (planner) {
+      const fpsLimit = planner.game.state.slowEffectSteps > 0 ? 10 : 35;
+      if (delta > 1000 / fpsLimit) {
+        lastUpdateRef.current = time;
+        planner.tick(1);
+        setQStats(planner.getStats());
+        setCurrentScore(planner.game.state.score);
+        setLevel(planner.game.state.level);
+        setCurrentQValues(planner.getActionValues());
         draw();
       }
+      requestRef.current = requestAnimationFrame(animate);
+      return;
+    }
+
+    const watchTrainer = trainers[valueAgentRef.current];
+    const activeGame = watchTrainer.agent.game;
+    const fpsLimit = activeGame.state.slowEffectSteps > 0 ? 10 : 35;
+
+    if (delta > 1000 / fpsLimit) {
+      lastUpdateRef.current = time;
+      
+      watchTrainer.tick(1);
+      setQStats(watchTrainer.getStats());
+      setCurrentScore(activeGame.state.score);
+      setLevel(activeGame.state.level);
+      setCurrentQValues(watchTrainer.agent.getCurrentStateQValues());
+      draw();
     }
     requestRef.current = requestAnimationFrame(animate);
-  }, [draw]);
+  }, [draw, geneticAgent, trainers, planners, humanInput, syncReplayView]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(requestRef.current);
   }, [animate]);
 
+  useEffect(() => {
+    const worker = new Worker(new URL('./workers/trainingWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<TrainingWorkerMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'stats':
+          setQStats(message.stats);
+          setWorkerStepsPerSecond(message.stepsPerSecond);
+          break;
+        case 'frame':
+          trainingFrameRef.current = message.frame;
+          if (modeRef.current !== GameMode.TRAINING) break;
+          setCurrentScore(message.frame.state.score);
+          setLevel(message.frame.state.level);
+          draw();
+          break;
+        case 'checkpoint': {
+          // Mirror the worker's model, so autosaves and checkpoints during TRAINING are current.
+          // The final checkpoint after leaving TRAINING hands the model back to the page.
+          const workerTrainer = trainers[workerAgentRef.current];
+          applyStoreChanges(workerTrainer.agent.store, message.changes);
+          workerTrainer.reload();
+          if (modeRef.current !== GameMode.TRAINING && workerAgentRef.current === valueAgentRef.current) setQStats(workerTrainer.getStats());
+          break;
+        }
+        case 'error':
+          setWorkerError(message.message);
+          setTrainingRunning(false);
+          break;
+      }
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [draw, trainers]);
+
+  const setHumanState = useCallback((status: HumanStatus) => {
+    humanStatusRef.current = status;
+    setHumanStatus(status);
+  }, []);
+
+  const restartHuman = useCallback((startLevel: number = humanLevelRef.current) => {
+    const game = new SnakeGame(startLevel, { record: true });
+    humanGameRef.current = game;
+    humanInput.clear();
+    setHumanState('ready');
+    setCurrentScore(0);
+    setLevel(game.state.level);
+    setHumanMessage(null);
+    draw();
+  }, [humanInput, setHumanState, draw]);
+
+  const toggleHumanPause = useCallback(() => {
+    if (humanStatusRef.current === 'playing') setHumanState('paused');
+    else if (humanStatusRef.current === 'paused') setHumanState('playing');
+  }, [setHumanState]);
+
+  useEffect(() => {
+    if (mode !== GameMode.HUMAN) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const direction = HUMAN_KEYS[e.key];
+      if (direction) {
+        e.preventDefault();
+        const status = humanStatusRef.current;
+        if (status === 'over' || status === 'paused') return;
+        humanInput.push(direction, humanGameRef.current!);
+        // The game waits for the first key, so nobody starts off already moving
+        if (status === 'ready') setHumanState('playing');
+      } else if (e.key === ' ' || e.key === 'p' || e.key === 'P') {
+        e.preventDefault();
+        toggleHumanPause();
+      } else if (e.key === 'r' || e.key === 'R') {
+        restartHuman();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      if (humanStatusRef.current === 'playing') setHumanState('paused');
+    };
+  }, [mode, humanInput, setHumanState, toggleHumanPause, restartHuman]);
+
+  useEffect(() => {
+    if (mode !== GameMode.TRAINING) return;
+    // Hand the latest model to the worker, and take it back when leaving the mode
+    const kind = valueAgentRef.current;
+    const modelTrainer = trainers[kind];
+    modelTrainer.save();
+    const store = modelTrainer.agent.store;
+    const entries: Record<string, string> = {};
+    [...Q_VALUE_AGENT_STORAGE_KEYS[kind], STATS_STORAGE_KEY].forEach(key => {
+      const value = store.getItem(key);
+      if (value !== null) entries[key] = value;
+    });
+    trainingFrameRef.current = null;
+    setWorkerError(null);
+    workerAgentRef.current = kind;
+    postToWorker({ type: 'init', agent: kind, entries, demos: demosRef.current });
+    return () => {
+      postToWorker({ type: 'pause' });
+      postToWorker({ type: 'flush' });
+    };
+  }, [mode, trainers, postToWorker]);
+
+  useEffect(() => {
+    if (mode !== GameMode.TRAINING) return;
+    postToWorker(trainingRunning ? { type: 'start' } : { type: 'pause' });
+  }, [mode, trainingRunning, postToWorker]);
+
+  useEffect(() => {
+    postToWorker({ type: 'setStepsPerTick', stepsPerTick });
+  }, [stepsPerTick, postToWorker]);
+
+  const isEvolution = mode === GameMode.EVOLUTION;
+  const activePlanner = mode === GameMode.AI_WATCH && watchPlanner ? planners[watchPlanner] : null;
+  const plannedMove = activePlanner && !activePlanner.game.state.isGameOver ? activePlanner.nextMove : null;
+  const valueModel = trainer.agent;
+  // The genetic agent and the planners always use absolute directions; the Q-value agents may use turns
+  const actionLabels = isEvolution || activePlanner ? ACTIONS : valueModel.actionLabels;
+  const stateDescriptor = isEvolution
+    ? `GEN ${geneticStats.generation} · ${geneticStats.aliveCount} ALIVE`
+    : activePlanner ? (plannedMove ? `ROUTE ${plannedMove.path.length}${plannedMove.fallback ? ` · ${plannedMove.fallback.toUpperCase()}` : ''}` : 'EPISODE OVER')
+    : valueModel instanceof DQNAgent ? `${valueModel.encoder.id} · LOSS ${valueModel.lastLoss.toFixed(4)}` : (valueModel as QLearningAgent).getStateString();
+  const hudBoard = (mode === GameMode.TRAINING && trainingFrameRef.current)
+    || (mode === GameMode.ARENA && arenaRef.current && toArenaFrame(arenaRef.current.game))
+    || toBoardFrame(getActiveGame(mode));
+
+  const loadReplay = (player: ReplayPlayer) => {
+    replayPlayerRef.current = player;
+    setReplayError(null);
+    setReplayPlaying(false);
+    setMode(GameMode.REPLAY);
+    modeRef.current = GameMode.REPLAY;
+    syncReplayView();
+  };
+
+  const captureReplay = () => {
+    const agent = activePlanner ?? trainer.agent;
+    // Prefer the episode in progress if it is being recorded, else the last finished one
+    const source = mode === GameMode.HUMAN
+      ? humanGameRef.current!.replay
+      : agent.game.replay && agent.game.replay.actions.length > 0 ? agent.game.replay : agent.lastReplay;
+    if (!source) {
+      setReplayError('No recorded episode yet, let AI WATCH run for a moment');
+      return;
+    }
+    const game = mode === GameMode.HUMAN ? humanGameRef.current! : agent.game;
+    loadReplay(new ReplayPlayer(JSON.parse(JSON.stringify(source)), game.levelPack));
+  };
+
+  const seekReplay = (t: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    player.seek(t);
+    syncReplayView();
+  };
+
+  const exportReplay = () => {
+    const replay = replayPlayerRef.current?.replay;
+    if (replay) downloadFile(`coresnake-replay-${replay.seed}.json`, JSON.stringify(replay));
+  };
+
+  const importReplay = async (file: File) => {
+    try {
+      loadReplay(new ReplayPlayer(parseReplay(await file.text()), trainer.agent.game.levelPack));
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportModel = () => {
+    if (mode === GameMode.EVOLUTION) {
+      downloadFile(`coresnake-genetic-gen${geneticAgent.generation}.csnk`, geneticAgent.exportModel(), 'application/octet-stream');
+    } else {
+      downloadFile(`coresnake-${valueAgent}-${trainer.agent.totalStepsEver}.csnk`, trainer.exportModel(), 'application/octet-stream');
+    }
+  };
+
+  const importModel = async (file: File) => {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (mode === GameMode.EVOLUTION) {
+        geneticAgent.importModel(bytes);
+        setGeneticStats(geneticAgent.getStats());
+      } else {
+        trainer.importModel(bytes);
+        setQStats(trainer.getStats());
+        setAgentConfig(trainer.agent.config);
+      }
+      setModelError(null);
+      setModelMessage(`Loaded ${file.name}`);
+      await persistRun();
+    } catch (e) {
+      setModelMessage(null);
+      setModelError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const applyAgentConfig = (config: AgentConfig) => {
+    try {
+      trainer.agent.setConfig(config);
+      setAgentConfig(trainer.agent.config);
+      setAgentConfigError(null);
+      setCurrentQValues(trainer.agent.getCurrentStateQValues());
+      setQStats(trainer.getStats());
+      postToWorker({ type: 'setConfig', config: trainer.agent.config });
+    } catch (e) {
+      setAgentConfigError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const applyCurriculum = (config: CurriculumConfig) => {
+    try {
+      trainer.setCurriculum(config);
+      setCurriculumError(null);
+      setQStats(trainer.getStats());
+      postToWorker({ type: 'setCurriculum', config: trainer.curriculum.config });
+    } catch (e) {
+      setCurriculumError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const activeAgentType: ModelAgentType = isEvolution ? 'genetic' : valueAgent;
+
+  const closeShowcase = () => {
+    showcaseRef.current = null;
+    setShowcase(null);
+  };
+
+  const selectValueAgent = (kind: QValueAgentKind) => {
+    closeShowcase();
+    watchPlannerRef.current = null;
+    setWatchPlanner(null);
+    valueAgentRef.current = kind;
+    setValueAgent(kind);
+    setQStats(trainers[kind].getStats());
+    setAgentConfig(trainers[kind].agent.config);
+    setAgentConfigError(null);
+    setCurriculumError(null);
+    setCurrentQValues(trainers[kind].agent.getCurrentStateQValues());
+  };
+
+  const selectPlanner = (kind: PlannerKind) => {
+    closeShowcase();
+    watchPlannerRef.current = kind;
+    setWatchPlanner(kind);
+    setQStats(planners[kind].getStats());
+    setCurrentQValues(planners[kind].getActionValues());
+  };
+
+  const saveHumanDemo = async () => {
+    try {
+      const store = checkpointStoreRef.current;
+      if (!store) throw new Error('Saving is disabled, so demos can\'t be kept');
+      if (!humanRun) return;
+      const replay: Replay = JSON.parse(JSON.stringify(humanRun));
+      await store.saveDemo(run, { source: 'human', replay, createdAt: new Date().toISOString() });
+      setHumanRun(null);
+      adoptDemos(await store.listDemos(run));
+      setHumanError(null);
+      setHumanMessage(`Saved demo: score ${replay.finalScore}, ${replay.actions.length} steps`);
+    } catch (e) {
+      setHumanMessage(null);
+      setHumanError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const runDemoAction = async (action: () => Promise<string>) => {
+    try {
+      setDemoMessage(await action());
+      setDemoError(null);
+    } catch (e) {
+      setDemoMessage(null);
+      setDemoError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const recordDemos = (kind: PlannerKind, episodes: number) => runDemoAction(async () => {
+    const store = checkpointStoreRef.current;
+    if (!store) throw new Error('Saving is disabled, so demos can\'t be kept');
+    for (const demo of recordPlannerDemos(kind, episodes, { levelPack: trainer.agent.game.levelPack, maxSteps: PLANNER_DEMO_STEPS })) await store.saveDemo(run, demo);
+    adoptDemos(await store.listDemos(run));
+    setQStats(trainer.getStats());
+    return `Recorded ${episodes} ${PLANNERS[kind]} episode${episodes === 1 ? '' : 's'}`;
+  });
+
+  const pretrainOnDemos = (epochs: number) => runDemoAction(async () => {
+    trainer.agent.pretrain(epochs);
+    setQStats(trainer.getStats());
+    setCurrentQValues(trainer.agent.getCurrentStateQValues());
+    await persistRun();
+    return `Pretrained ${epochs} epoch${epochs === 1 ? '' : 's'} on ${trainer.agent.demoSize.toLocaleString()} steps`;
+  });
+
+  const exportDemos = () => {
+    const data: Demonstration[] = demos.map(({ source, replay, createdAt }) => ({ source, replay, createdAt }));
+    downloadFile(`coresnake-demos-${run}.json`, JSON.stringify(data));
+  };
+
+  const clearDemos = () => runDemoAction(async () => {
+    const store = checkpointStoreRef.current;
+    if (!store) throw new Error('No demonstration storage to clear');
+    for (const demo of demos) await store.deleteDemo(demo.id);
+    adoptDemos([]);
+    setQStats(trainer.getStats());
+    return 'Demonstrations cleared';
+  });
+
+  /** A copy of a Q-value agent's current model that nothing trains, handed over through its store like the worker's. */
+  const freezeValueAgent = (kind: QValueAgentKind): QValueAgent => {
+    const source = trainers[kind];
+    source.save();
+    const store = new MemoryStore();
+    Q_VALUE_AGENT_STORAGE_KEYS[kind].forEach(key => {
+      const value = source.agent.store.getItem(key);
+      if (value !== null) store.setItem(key, value);
+    });
+    const game = source.agent.game;
+    return createQValueAgent(kind, { store, levelPack: game.levelPack, gameConfig: game.config });
+  };
+
+  /** Evaluates the watched planner, or a frozen copy of the selected agent so AI WATCH can keep learning meanwhile. */
+  const runEvaluation = async (levels: number[], episodes: number, seed: number) => {
+    try {
+      const game = activePlanner ? activePlanner.game : trainer.agent.game;
+      let policy: EvaluationPolicy;
+      if (activePlanner) {
+        policy = plannerPolicy(activePlanner.kind);
+      } else {
+        policy = valueAgentPolicy(freezeValueAgent(valueAgent), `${Q_VALUE_AGENTS[valueAgent]} @ ${trainer.agent.totalStepsEver.toLocaleString()} steps`);
+      }
+      setEvaluationError(null);
+      setEvaluationProgress(`0/${levels.length} levels`);
+      const report = await evaluatePolicy(policy, { levels, episodes, seed, levelPack: game.levelPack, gameConfig: game.config }, async (done, total) => {
+        setEvaluationProgress(`${done}/${total} levels`);
+        // Let the progress paint before the next level blocks the thread again
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+      setEvaluation(report);
+    } catch (e) {
+      setEvaluationError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setEvaluationProgress(null);
+    }
+  };
+
+  const exportEvaluation = () => {
+    if (evaluation) downloadFile(`coresnake-eval-${evaluation.createdAt.replace(/[:.]/g, '-')}.json`, JSON.stringify(evaluation, null, 2));
+  };
+
+  /** Every agent of the run: the planners, frozen copies of the agents that have trained, and the saved checkpoints. */
+  const collectEntrants = async (store: CheckpointStore, includeAuto: boolean): Promise<TournamentEntrant[]> => {
+    const entrants: TournamentEntrant[] = (Object.keys(PLANNERS) as PlannerKind[]).map(kind => ({ id: `planner:${kind}`, policy: plannerPolicy(kind) }));
+    (Object.keys(trainers) as QValueAgentKind[]).forEach(kind => {
+      const steps = trainers[kind].agent.totalStepsEver;
+      if (steps === 0) return;
+      entrants.push({ id: `live:${kind}`, policy: valueAgentPolicy(freezeValueAgent(kind), `${Q_VALUE_AGENTS[kind]} · live @ ${steps.toLocaleString()} steps`) });
+    });
+    if (geneticAgent.bestBrain) {
+      entrants.push({ id: 'live:genetic', policy: geneticPolicy(geneticAgent.bestBrain.clone(), `Genetic · live @ gen ${geneticAgent.generation}`) });
+    }
+    for (const agentType of ['qlearning', 'dqn', 'genetic'] as ModelAgentType[]) {
+      for (const checkpoint of await store.list(run, agentType)) {
+        if (checkpoint.kind === 'auto' && !includeAuto) continue;
+        const label = agentType === 'genetic' ? 'Genetic' : Q_VALUE_AGENTS[agentType];
+        entrants.push({ id: `checkpoint:${checkpoint.id}`, policy: modelPolicy(await store.loadModel(checkpoint.id), `${label} · ${checkpoint.name}`) });
+      }
+    }
+    return entrants;
+  };
+
+  const playTournament = async (setup: TournamentSetup, includeAuto: boolean) => {
+    try {
+      const store = checkpointStoreRef.current;
+      if (!store) throw new Error('Saving is disabled, so there is no leaderboard to keep');
+      setTournamentError(null);
+      setTournamentProgress('LOADING AGENTS');
+      const entrants = await collectEntrants(store, includeAuto);
+      const game = trainers[valueAgentRef.current].agent.game;
+      const standings = await runTournament(entrants, setup, { levelPack: game.levelPack, gameConfig: game.config }, async (done, total) => {
+        setTournamentProgress(`${done}/${total} AGENTS`);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+      const board = mergeLeaderboard(await store.loadLeaderboard(run), run, setup, standings);
+      await store.saveLeaderboard(board);
+      setLeaderboard(board);
+    } catch (e) {
+      setTournamentError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTournamentProgress(null);
+    }
+  };
+
+  const openBestRun = (standing: TournamentStanding) => {
+    try {
+      showcaseRef.current = new ReplayPlayer(standing.bestRun, trainers[valueAgentRef.current].agent.game.levelPack);
+    } catch (e) {
+      setTournamentError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    setShowcase(standing);
+    setCurrentScore(0);
+    setLevel(standing.bestRun.level);
+    draw();
+  };
+
+  const clearLeaderboard = async () => {
+    try {
+      await checkpointStoreRef.current?.deleteLeaderboard(run);
+      closeShowcase();
+      setLeaderboard(null);
+      setTournamentError(null);
+    } catch (e) {
+      setTournamentError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  /** Who can play in the arena: the planners, frozen copies of the Q-value agents, and the genetic leader once it exists. */
+  const arenaControllers: Record<string, string> = {
+    ...Object.fromEntries((Object.keys(PLANNERS) as PlannerKind[]).map(kind => [`planner:${kind}`, PLANNERS[kind]])),
+    ...Object.fromEntries((Object.keys(Q_VALUE_AGENTS) as QValueAgentKind[]).map(kind => [`live:${kind}`, `${Q_VALUE_AGENTS[kind]} · live`])),
+    ...(geneticAgent.bestBrain ? { 'live:genetic': `Genetic · gen ${geneticAgent.generation}` } : {})
+  };
+
+  const createArenaController = (id: string): EvaluationPolicy => {
+    const [source, kind] = id.split(':');
+    if (source === 'planner' && kind in PLANNERS) return plannerPolicy(kind as PlannerKind);
+    if (source === 'live' && kind in Q_VALUE_AGENTS) return valueAgentPolicy(freezeValueAgent(kind as QValueAgentKind), Q_VALUE_AGENTS[kind as QValueAgentKind]);
+    if (id === 'live:genetic' && geneticAgent.bestBrain) return geneticPolicy(geneticAgent.bestBrain.clone(), 'Genetic');
+    throw new Error(`Unknown arena controller "${id}"`);
+  };
+
+  const startArena = (controllerIds: string[], level: number, seed: number) => {
+    try {
+      const game = trainers[valueAgentRef.current].agent.game;
+      arenaRef.current = new ArenaMatch(controllerIds.map(createArenaController), { seed, level, levelPack: game.levelPack, config: game.config });
+      setArenaSteps(0);
+      setArenaError(null);
+      setCurrentScore(0);
+      setLevel(level);
+      draw();
+    } catch (e) {
+      setArenaError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const runCheckpointAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setCheckpointError(null);
+    } catch (e) {
+      setCheckpointError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const restoreCheckpoint = (checkpoint: CheckpointMeta) => runCheckpointAction(async () => {
+    const bytes = await checkpointStoreRef.current!.loadModel(checkpoint.id);
+    if (checkpoint.agentType === 'genetic') {
+      geneticAgent.importModel(bytes);
+      setGeneticStats(geneticAgent.getStats());
+    } else {
+      const restored = trainers[checkpoint.agentType];
+      restored.importModel(bytes);
+      setQStats(restored.getStats());
+      setAgentConfig(restored.agent.config);
+    }
+    await persistRun();
+  });
+
+  const switchRun = (next: string) => runCheckpointAction(async () => {
+    if (next === run) return;
+    await persistRun();
+    localStorage.setItem(RUN_STORAGE_KEY, next);
+    window.location.reload();
+  });
+
+  const purgeRun = () => runCheckpointAction(async () => {
+    const store = checkpointStoreRef.current;
+    if (!store) throw new Error('No checkpoint storage to purge');
+    purgingRef.current = true;
+    await store.purgeRun(run);
+    window.location.reload();
+  });
+
   return (
     <div className="flex h-screen w-screen bg-[#010105] text-slate-200 overflow-hidden font-sans">
       {/* SIDEBAR PANEL */}
@@ -292,13 +1141,111 @@ const App: React.FC = () => {
 
         {/* MODE SWITCHER */}
         <div className="flex gap-2 p-1.5 bg-white/5 rounded-2xl border border-white/10">
-          {[GameMode.AI_WATCH, GameMode.TRAINING].map(m => (
+          {[GameMode.AI_WATCH, GameMode.TRAINING, GameMode.EVOLUTION, GameMode.REPLAY, GameMode.HUMAN, GameMode.ARENA].map(m => (
             <button key={m} onClick={() => setMode(m)} className={`flex-1 py-3 text-sm rounded-xl font-black transition-all duration-200 ${mode === m ? 'bg-emerald-600 text-white shadow-lg' : 'text-white/30 hover:bg-white/10 hover:text-white'}`}>
               {m.replace('_', ' ')}
             </button>
           ))}
         </div>
 
+        {(mode === GameMode.AI_WATCH || mode === GameMode.TRAINING) && (
+          <div className="flex gap-2 p-1.5 bg-white/5 rounded-2xl border border-white/10" title={mode === GameMode.TRAINING ? 'Leave TRAINING to switch agents' : undefined}>
+            {(Object.keys(Q_VALUE_AGENTS) as QValueAgentKind[]).map(kind => (
+              <button key={kind} onClick={() => selectValueAgent(kind)} disabled={mode === GameMode.TRAINING} className={`flex-1 py-2 text-xs rounded-xl font-black transition-all duration-200 disabled:cursor-not-allowed ${valueAgent === kind && !activePlanner ? 'bg-emerald-600/80 text-white' : 'text-white/30 hover:bg-white/10 hover:text-white'}`}>
+                {Q_VALUE_AGENTS[kind]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode === GameMode.AI_WATCH && (
+          <div className="flex gap-2 p-1.5 bg-white/5 rounded-2xl border border-white/10 -mt-6" title="Non-learning baselines">
+            {(Object.keys(PLANNERS) as PlannerKind[]).map(kind => (
+              <button key={kind} onClick={() => selectPlanner(kind)} className={`flex-1 py-2 text-xs rounded-xl font-black transition-all duration-200 ${watchPlanner === kind ? 'bg-amber-500/80 text-white' : 'text-white/30 hover:bg-white/10 hover:text-white'}`}>
+                {PLANNERS[kind]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode === GameMode.HUMAN && (
+          <HumanControls
+            status={humanStatus}
+            level={humanLevel}
+            levelNames={humanGameRef.current!.levelPack.levels.map(l => l.name)}
+            demoCount={demos.filter(d => d.source === 'human').length}
+            canSaveDemo={!!humanRun && humanRun.actions.length > 0}
+            message={humanMessage}
+            error={humanError}
+            onTogglePause={toggleHumanPause}
+            onRestart={() => restartHuman()}
+            onLevelChange={l => {
+              humanLevelRef.current = l;
+              setHumanLevel(l);
+              restartHuman(l);
+            }}
+            onSaveDemo={saveHumanDemo}
+          />
+        )}
+
+        {mode === GameMode.ARENA && (
+          <ArenaPanel
+            match={arenaRef.current}
+            steps={arenaSteps}
+            controllers={arenaControllers}
+            levelNames={trainer.agent.game.levelPack.levels.map(l => l.name)}
+            error={arenaError}
+            onStart={startArena}
+          />
+        )}
+
+        {(mode === GameMode.AI_WATCH || mode === GameMode.HUMAN) && (
+          <button onClick={captureReplay} className="w-full py-3 bg-white/5 text-white/70 border border-white/10 rounded-xl font-black text-[10px] uppercase tracking-[0.4em] hover:bg-white/10 hover:text-white transition-all">
+            Capture Replay
+          </button>
+        )}
+        {(mode === GameMode.AI_WATCH || mode === GameMode.HUMAN) && replayError && (
+          <p className="-mt-6 text-[10px] font-black text-red-400 uppercase tracking-widest">{replayError}</p>
+        )}
+
+        {mode === GameMode.TRAINING && (
+          <TrainingControls
+            running={trainingRunning}
+            stepsPerTick={stepsPerTick}
+            stepsPerSecond={workerStepsPerSecond}
+            error={workerError}
+            onToggleRun={() => setTrainingRunning(r => !r)}
+            onStep={() => postToWorker({ type: 'step', steps: 1 })}
+            onStepsPerTickChange={setStepsPerTick}
+          />
+        )}
+
+        {mode === GameMode.REPLAY && (
+          <ReplayControls
+            loaded={!!replayPlayerRef.current}
+            cursor={replayCursor}
+            length={replayPlayerRef.current?.length ?? 0}
+            playing={replayPlaying}
+            speed={replaySpeed}
+            seed={replayPlayerRef.current?.replay.seed}
+            startLevel={replayPlayerRef.current?.replay.level}
+            finalScore={replayPlayerRef.current?.replay.finalScore}
+            lastReward={replayPlayerRef.current?.lastReward ?? null}
+            diverged={replayPlayerRef.current?.diverged ?? false}
+            error={replayError}
+            onTogglePlay={() => {
+              const player = replayPlayerRef.current;
+              if (player && player.atEnd && !replayPlaying) seekReplay(0);
+              setReplayPlaying(p => !p);
+            }}
+            onStep={d => { setReplayPlaying(false); seekReplay(replayCursor + d); }}
+            onSeek={seekReplay}
+            onSpeedChange={setReplaySpeed}
+            onExport={exportReplay}
+            onImport={importReplay}
+          />
+        )}
+
         {/* CORE ANALYTICS */}
         <div className="space-y-6">
            <div className="grid grid-cols-2 gap-4">
@@ -321,6 +1268,7 @@ const App: React.FC = () => {
                 <div className="text-right">
                    <div className="text-[10px] text-white/40 font-black uppercase mb-1">Sector</div>
                    <div className="text-2xl font-black text-emerald-400 mono">L-{level}</div>
+                   <div className="text-[9px] text-white/40 font-black uppercase tracking-widest mt-1 truncate max-w-[120px]">{hudBoard.levelName}</div>
                 </div>
               </div>
            </div>
@@ -331,6 +1279,28 @@ const App: React.FC = () => {
               <SimpleChart data={qStats.epsilonHistory} color="#fbbf24" label="Entropy Rate (Exploration)" height={80} />
            </div>
 
+           {isEvolution && (
+             <div className="space-y-6 pt-6 border-t border-white/5">
+                <div className="grid grid-cols-3 gap-3">
+                   <div className="bg-white/5 p-4 rounded-2xl border border-white/5 shadow-inner">
+                     <div className="text-[9px] text-emerald-400 font-black uppercase tracking-widest mb-2 opacity-70">Generation</div>
+                     <div className="text-xl font-black text-white mono leading-none">{geneticStats.generation}</div>
+                   </div>
+                   <div className="bg-white/5 p-4 rounded-2xl border border-white/5 shadow-inner">
+                     <div className="text-[9px] text-emerald-400 font-black uppercase tracking-widest mb-2 opacity-70">Alive</div>
+                     <div className="text-xl font-black text-white mono leading-none">{geneticStats.aliveCount}/{geneticStats.populationSize}</div>
+                   </div>
+                   <div className="bg-white/5 p-4 rounded-2xl border border-white/5 shadow-inner">
+                     <div className="text-[9px] text-emerald-400 font-black uppercase tracking-widest mb-2 opacity-70">Best Score</div>
+                     <div className="text-xl font-black text-white mono leading-none">{geneticStats.bestScoreEver}</div>
+                   </div>
+                </div>
+                <SimpleChart data={geneticStats.bestFitnessHistory} color="#34d399" label="Best Fitness" height={80} />
+                <SimpleChart data={geneticStats.meanFitnessHistory} color="#60a5fa" label="Mean Fitness" height={80} />
+                <SimpleChart data={geneticStats.worstFitnessHistory} color="#f87171" label="Worst Fitness" height={80} />
+             </div>
+           )}
+
            <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
               <div className="flex justify-between items-center">
                  <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Episodes</span>
@@ -344,11 +1314,100 @@ const App: React.FC = () => {
                  <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Rolling Avg</span>
                  <span className="text-xl font-black text-emerald-400 mono">{qStats.avgScoreLast100}</span>
               </div>
+              {qStats.curriculum && stageCount(qStats.curriculum.config.mode, trainer.agent.game.levelPack) > 0 && (
+                <div className="flex justify-between items-center gap-4">
+                   <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em] whitespace-nowrap">Curriculum</span>
+                   <span className="text-sm font-black text-white mono truncate">{describeStage(qStats.curriculum.config.mode, qStats.curriculum.stage, trainer.agent.game.levelPack)}</span>
+                </div>
+              )}
+              {qStats.demoAgreement != null && (
+                <div className="flex justify-between items-center">
+                   <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Demo Agreement</span>
+                   <span className="text-xl font-black text-amber-400 mono">{qStats.demoAgreement}%</span>
+                </div>
+              )}
            </div>
         </div>
 
-        <button onClick={() => { localStorage.clear(); window.location.reload(); }} className="w-full py-4 bg-red-950/10 text-red-500 border border-red-500/20 rounded-xl font-black text-[10px] uppercase tracking-[0.4em] hover:bg-red-500/10 transition-all mt-auto">
-          Purge Cognitive Memory
+        {(mode === GameMode.TRAINING || (mode === GameMode.AI_WATCH && !activePlanner)) && (
+          <AgentConfigPanel config={agentConfig} tabular={valueAgent === 'qlearning'} tableSizes={qStats.tableSizes} error={agentConfigError} onApply={applyAgentConfig} />
+        )}
+
+        {(mode === GameMode.TRAINING || (mode === GameMode.AI_WATCH && !activePlanner)) && (
+          <CurriculumPanel state={qStats.curriculum} pack={trainer.agent.game.levelPack} error={curriculumError} onApply={applyCurriculum} />
+        )}
+
+        {mode === GameMode.AI_WATCH && !activePlanner && (
+          <DemoPanel
+            sources={demos.reduce<Record<string, number>>((counts, d) => ({ ...counts, [d.source]: (counts[d.source] ?? 0) + 1 }), {})}
+            recordedSteps={demos.reduce((n, d) => n + d.replay.actions.length, 0)}
+            loadedSteps={trainer.agent.demoSize}
+            agreement={qStats.demoAgreement ?? null}
+            message={demoMessage}
+            error={demoError}
+            onRecord={recordDemos}
+            onPretrain={pretrainOnDemos}
+            onExport={exportDemos}
+            onClear={clearDemos}
+          />
+        )}
+
+        {mode === GameMode.AI_WATCH && (
+          <EvaluationPanel
+            agentLabel={activePlanner ? PLANNERS[activePlanner.kind] : Q_VALUE_AGENTS[valueAgent]}
+            defaultLevels={`1-${trainer.agent.game.levelPack.levels.length}`}
+            report={evaluation}
+            progress={evaluationProgress}
+            error={evaluationError}
+            onRun={runEvaluation}
+            onExport={exportEvaluation}
+          />
+        )}
+
+        {mode === GameMode.AI_WATCH && (
+          <TournamentPanel
+            board={leaderboard}
+            defaultLevels={`1-${trainer.agent.game.levelPack.levels.length}`}
+            progress={tournamentProgress}
+            openId={showcase?.id ?? null}
+            error={tournamentError}
+            onRun={playTournament}
+            onOpen={openBestRun}
+            onClear={clearLeaderboard}
+          />
+        )}
+
+        <ModelControls
+          agentLabel={isEvolution ? 'Genetic' : Q_VALUE_AGENTS[valueAgent]}
+          disabledReason={mode === GameMode.TRAINING ? 'The worker owns the model while training; switch mode to export or import' : null}
+          message={modelMessage}
+          error={modelError}
+          onExport={exportModel}
+          onImport={importModel}
+        />
+
+        <CheckpointPanel
+          runs={runs}
+          run={run}
+          agentLabel={isEvolution ? 'Genetic' : Q_VALUE_AGENTS[valueAgent]}
+          autoEvery={isEvolution ? `${AUTO_CHECKPOINT_GENERATIONS} generations` : `${AUTO_CHECKPOINT_EPISODES.toLocaleString()} episodes`}
+          checkpoints={checkpoints}
+          disabledReason={mode === GameMode.TRAINING ? 'Switch mode to restore or save checkpoints; the worker owns the model while training' : null}
+          error={checkpointError}
+          onSelectRun={switchRun}
+          onSave={name => runCheckpointAction(async () => {
+            await saveCheckpoint(activeAgentType, name || `Manual · ${new Date().toLocaleString()}`, 'manual');
+            await refreshCheckpoints(activeAgentType);
+          })}
+          onRestore={restoreCheckpoint}
+          onDelete={checkpoint => runCheckpointAction(async () => {
+            await checkpointStoreRef.current!.deleteCheckpoint(checkpoint.id);
+            await refreshCheckpoints(activeAgentType);
+          })}
+        />
+
+        <button onClick={purgeRun} className="w-full py-4 bg-red-950/10 text-red-500 border border-red-500/20 rounded-xl font-black text-[10px] uppercase tracking-[0.4em] hover:bg-red-500/10 transition-all mt-auto">
+          Purge Run "{run}"
         </button>
       </div>
 
@@ -368,8 +1427,8 @@ const App: React.FC = () => {
              <div className="w-px h-10 bg-white/10"></div>
              <div className="flex flex-col items-center min-w-[180px]">
                <span className="text-[9px] font-black text-white/30 uppercase tracking-[0.4em] mb-1">Priority Vector</span>
-               <span className={`text-sm font-black uppercase tracking-widest text-center ${qAgentRef.current.game.state.portalOpen ? 'text-purple-400 animate-pulse' : 'text-emerald-400'}`}>
-                 {qAgentRef.current.game.state.portalOpen ? 'SECTOR PORTAL' : 'TRACKING TARGET'}
+               <span className={`text-sm font-black uppercase tracking-widest text-center ${hudBoard.state.portalOpen ? 'text-purple-400 animate-pulse' : 'text-emerald-400'}`}>
+                 {hudBoard.state.portalOpen ? 'SECTOR PORTAL' : 'TRACKING TARGET'}
                </span>
              </div>
              <div className="w-px h-10 bg-white/10"></div>
@@ -381,15 +1440,24 @@ const App: React.FC = () => {
                </div>
              </div>
           </div>
+
+          {mode === GameMode.AI_WATCH && showcase && (
+            <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 flex gap-4 items-center glass px-6 py-3 rounded-full border border-white/20 shadow-2xl backdrop-blur-3xl whitespace-nowrap">
+              <span className="text-[9px] font-black text-amber-400 uppercase tracking-[0.3em]">Best Run</span>
+              <span className="text-[10px] font-black text-white uppercase tracking-widest max-w-[280px] truncate">{showcase.name}</span>
+              <span className="text-[10px] font-black text-white/50 mono">L{showcase.bestRun.level} · {showcase.bestRun.finalScore} PTS</span>
+              <button onClick={closeShowcase} className="px-3 py-1 text-[9px] rounded-full font-black bg-white/10 text-white/70 hover:bg-white/20 hover:text-white transition-all">CLOSE</button>
+            </div>
+          )}
         </div>
 
         {/* DECISION MATRIX */}
         <div className="mt-16 w-full max-w-[800px] grid grid-cols-2 gap-10">
            <div className="bg-white/5 border border-white/10 rounded-[2.5rem] p-8 shadow-2xl">
-              <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.5em] mb-6">Neural Utility Map (Q)</h3>
-              <div className="grid grid-cols-4 gap-6">
-                 {['UP', 'DOWN', 'LEFT', 'RIGHT'].map((dir, idx) => {
-                    const val = currentQValues[idx];
+              <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.5em] mb-6">Neural Utility Map ({isEvolution ? 'Net' : activePlanner ? 'Plan' : 'Q'})</h3>
+              <div className={`grid ${actionLabels.length === 3 ? 'grid-cols-3' : 'grid-cols-4'} gap-6`}>
+                 {actionLabels.map((dir, idx) => {
+                    const val = currentQValues[idx] ?? 0;
                     const max = Math.max(...currentQValues);
                     const isBest = val === max && val !== 0;
                     return (
@@ -409,13 +1477,36 @@ const App: React.FC = () => {
               <div>
                  <h3 className="text-[10px] font-black text-white/30 uppercase tracking-[0.5em] mb-6">System Heuristics</h3>
                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                       <span className="text-xs text-white/40 font-black uppercase tracking-widest">Optimizer</span>
-                       <span className="text-xs text-white font-black mono px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded-lg">TD(0)</span>
-                    </div>
+                    {isEvolution ? (
+                      <div className="flex items-center justify-between">
+                         <span className="text-xs text-white/40 font-black uppercase tracking-widest">Optimizer</span>
+                         <span className="text-xs text-white font-black mono px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded-lg">GA</span>
+                      </div>
+                    ) : activePlanner ? ([
+                      ['Planner', PLANNERS[activePlanner.kind]],
+                      ['Route', plannedMove ? `${plannedMove.path.length} cells` : '—'],
+                      ['Strategy', plannedMove?.fallback ? `fallback: ${plannedMove.fallback}` : 'primary']
+                    ].map(([label, value]) => (
+                      <div key={label} className="flex items-center justify-between gap-3">
+                         <span className="text-xs text-white/40 font-black uppercase tracking-widest whitespace-nowrap">{label}</span>
+                         <span className="text-[10px] text-white font-black mono px-3 py-1 bg-amber-500/10 border border-amber-500/20 rounded-lg truncate" title={value}>{value}</span>
+                      </div>
+                    ))) : ([
+                      ['Algorithm', valueAgent === 'dqn' ? 'DQN' : TABULAR_ALGORITHMS[agentConfig.algorithm]],
+                      ['State', valueModel instanceof DQNAgent ? valueModel.encoder.id : (valueModel as QLearningAgent).encoder.id],
+                      ['Actions', `${agentConfig.actionMode}${agentConfig.maskActions ? ' · masked' : ''}`],
+                      ['Discount γ', valueAgent === 'qlearning' && usesTraces(agentConfig.algorithm) ? `${agentConfig.gamma} · λ ${agentConfig.lambda}` : `${agentConfig.gamma}`],
+                      ['Learning α', `${describeSchedule(agentConfig.alpha)} = ${trainer.agent.alpha.toFixed(4)}`],
+                      ['Exploration ε', `${describeSchedule(agentConfig.epsilon)} = ${qStats.epsilon.toFixed(4)}`]
+                    ].map(([label, value]) => (
+                      <div key={label} className="flex items-center justify-between gap-3">
+                         <span className="text-xs text-white/40 font-black uppercase tracking-widest whitespace-nowrap">{label}</span>
+                         <span className="text-[10px] text-white font-black mono px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded-lg truncate" title={value}>{value}</span>
+                      </div>
+                    )))}
                     <div className="flex items-center justify-between">
                        <span className="text-xs text-white/40 font-black uppercase tracking-widest">Descriptor</span>
-                       <span className="text-[10px] text-emerald-400 font-bold mono truncate max-w-[180px] bg-black/40 border border-white/10 px-3 py-1.5 rounded-lg">{qAgentRef.current.getStateString()}</span>
+                       <span className="text-[10px] text-emerald-400 font-bold mono truncate max-w-[180px] bg-black/40 border border-white/10 px-3 py-1.5 rounded-lg">{stateDescriptor}</span>
                     </div>
                  </div>
               </div>
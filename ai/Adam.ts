@@ -0,0 +1,60 @@
+import { NeuralNetwork } from './NeuralNetwork';
+
+export interface AdamOptions {
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+}
+
+export const DEFAULT_ADAM_OPTIONS: AdamOptions = { beta1: 0.9, beta2: 0.999, epsilon: 1e-8 };
+
+/**
+ * Adam optimizer for a NeuralNetwork. Gradients come in getWeights() layout,
+ * as filled in by NeuralNetwork.backward().
+ */
+export class Adam {
+  network: NeuralNetwork;
+  options: AdamOptions;
+  private m: Float32Array;
+  private v: Float32Array;
+  private t: number = 0;
+
+  constructor(network: NeuralNetwork, options: Partial<AdamOptions> = {}) {
+    this.network = network;
+    this.options = { ...DEFAULT_ADAM_OPTIONS, ...options };
+    this.m = new Float32Array(network.parameterCount);
+    this.v = new Float32Array(network.parameterCount);
+  }
+
+  /** Applies one update, descending along `gradients`. */
+  step(gradients: Float32Array, learningRate: number): void {
+    if (gradients.length !== this.m.length) {
+      throw new Error(`Expected ${this.m.length} gradients, got ${gradients.length}`);
+    }
+    const { beta1, beta2, epsilon } = this.options;
+    this.t++;
+    // Bias corrections folded into the step size
+    const stepSize = learningRate * Math.sqrt(1 - Math.pow(beta2, this.t)) / (1 - Math.pow(beta1, this.t));
+    const { m, v } = this;
+    let offset = 0;
+    const update = (params: Float32Array) => {
+      for (let i = 0; i < params.length; i++, offset++) {
+        const g = gradients[offset];
+        m[offset] = beta1 * m[offset] + (1 - beta1) * g;
+        v[offset] = beta2 * v[offset] + (1 - beta2) * g * g;
+        params[i] -= stepSize * m[offset] / (Math.sqrt(v[offset]) + epsilon);
+      }
+    };
+    for (let l = 0; l < this.network.weights.length; l++) {
+      update(this.network.weights[l]);
+      update(this.network.biases[l]);
+    }
+  }
+
+  /** Forgets the moment estimates, e.g. after loading new weights. */
+  reset(): void {
+    this.m.fill(0);
+    this.v.fill(0);
+    this.t = 0;
+  }
+}
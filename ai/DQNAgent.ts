@@ -0,0 +1,439 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { KeyValueStore, getDefaultStore } from '../storage/KeyValueStore';
+import { Environment, actionCount } from '../env/Environment';
+import { LOCAL_WINDOW_ENCODER, ObservationEncoder, RAY_VISION_ENCODER } from '../env/encoders';
+import { spaceSize } from '../env/spaces';
+import { NeuralNetwork } from './NeuralNetwork';
+import { Adam } from './Adam';
+import { ReplayBuffer } from './ReplayBuffer';
+import { assertCompatibleModel, decodeModel, encodeModel, MODEL_FORMAT_VERSION } from './modelFile';
+import { DEFAULT_AGENT_CONFIG, resolveAgentConfig } from './agentConfig';
+import { evaluateSchedule } from './schedules';
+import { QLearningAgentOptions } from './QLearningAgent';
+import { QValueAgent } from './QValueAgent';
+import { argmax, bitsToMask, maskToBits, randomAction } from './actionMask';
+import { DEMO_AGREEMENT_EVERY, DEMO_MARGIN, agreementRate, checkDemonstrations, forEachDemoTransition, marginRival } from './imitation';
+import { AgentConfig, Demonstration, QLearningStats, Replay } from '../types';
+
+const NETWORK_KEY = 'dqn_v1_network';
+const CONFIG_KEY = 'dqn_v1_config';
+const SETTINGS_KEY = 'dqn_v1_settings';
+const STEPS_KEY = 'dqn_v1_steps';
+export const DQN_STORAGE_KEYS = [NETWORK_KEY, CONFIG_KEY, SETTINGS_KEY, STEPS_KEY];
+
+export const DQN_ENCODERS: Record<DQNSettings['observation'], ObservationEncoder<Float32Array>> = {
+  rays: RAY_VISION_ENCODER,
+  local: LOCAL_WINDOW_ENCODER
+};
+
+/** Network and replay settings. Unlike AgentConfig these are fixed once the agent exists. */
+export interface DQNSettings {
+  observation: 'rays' | 'local';
+  hiddenLayers: number[];
+  replayCapacity: number;
+  batchSize: number;
+  learningStarts: number; // Steps of experience collected before the first gradient step
+  trainEvery: number; // Steps between gradient steps
+  targetSyncEvery: number; // Steps between copies of the online network into the target network
+  huberDelta: number;
+  prioritized: boolean;
+  priorityAlpha: number;
+  priorityBeta: number;
+}
+
+export const DEFAULT_DQN_SETTINGS: DQNSettings = {
+  observation: 'rays',
+  hiddenLayers: [64, 64],
+  replayCapacity: 50000,
+  batchSize: 32,
+  learningStarts: 1000,
+  trainEvery: 4,
+  targetSyncEvery: 2000,
+  huberDelta: 1,
+  prioritized: false,
+  priorityAlpha: 0.6,
+  priorityBeta: 0.4
+};
+
+// alpha is Adam's learning rate here, so it needs a far smaller default than the tabular one
+export const DEFAULT_DQN_AGENT_CONFIG: AgentConfig = {
+  ...DEFAULT_AGENT_CONFIG,
+  alpha: { type: 'constant', value: 0.0005 },
+  epsilon: { type: 'linear', start: 1, end: 0.05, steps: 200000 }
+};
+
+export interface DQNAgentOptions extends QLearningAgentOptions {
+  settings?: Partial<DQNSettings>; // Overrides saved settings; changing the observation or layers starts a fresh network
+}
+
+const resolveSettings = (settings: Partial<DQNSettings>): DQNSettings => {
+  const resolved = { ...DEFAULT_DQN_SETTINGS, ...settings };
+  if (!(resolved.observation in DQN_ENCODERS)) throw new Error(`Unknown DQN observation "${resolved.observation}"`);
+  for (const key of ['replayCapacity', 'batchSize', 'learningStarts', 'trainEvery', 'targetSyncEvery'] as const) {
+    if (!Number.isInteger(resolved[key]) || resolved[key] < 1) throw new Error(`${key} must be a positive integer, got ${resolved[key]}`);
+  }
+  for (const key of ['huberDelta', 'priorityAlpha', 'priorityBeta'] as const) {
+    if (typeof resolved[key] !== 'number' || !Number.isFinite(resolved[key])) throw new Error(`${key} must be a number, got ${resolved[key]}`);
+  }
+  if (typeof resolved.prioritized !== 'boolean') throw new Error(`prioritized must be true or false, got ${resolved.prioritized}`);
+  if (resolved.hiddenLayers.some(n => !Number.isInteger(n) || n < 1)) throw new Error(`Invalid hidden layers: ${resolved.hiddenLayers.join(',')}`);
+  return resolved;
+};
+
+/**
+ * Deep Q-Network on the in-repo NeuralNetwork: experience replay (optionally prioritized),
+ * a periodically synced target network, Huber loss and Adam. Shares AgentConfig with the
+ * tabular agent, with alpha as the learning rate; `config.algorithm` and `lambda` are unused.
+ */
+export class DQNAgent implements QValueAgent {
+  config: AgentConfig;
+  settings: DQNSettings;
+  alpha: number;
+  epsilon: number;
+
+  env: Environment<Float32Array>;
+  network: NeuralNetwork;
+  targetNetwork: NeuralNetwork;
+  optimizer: Adam;
+  buffer: ReplayBuffer;
+  totalReward: number = 0;
+  totalStepsEver: number = 0;
+  lastLoss: number = 0; // Mean Huber loss of the latest batch
+  rng: Random;
+  store: KeyValueStore;
+  recordEpisodes: boolean = false;
+  lastReplay: Replay | null = null;
+  demoAgreement: number | null = null;
+
+  private observation: Float32Array;
+  private gradients: Float32Array;
+  private demos: Demonstration[] = [];
+  // Demonstrated transitions, kept apart from the agent's own experience, and their legal actions
+  private demoBuffer: ReplayBuffer | null = null;
+  private demoMasks: Uint8Array = new Uint8Array(0);
+  private demoKey: string = ''; // Encoder and action space demoBuffer was built for
+
+  constructor(options: DQNAgentOptions = {}) {
+    this.rng = new Random(options.seed);
+    this.store = options.store || getDefaultStore();
+    this.config = resolveAgentConfig(DEFAULT_DQN_AGENT_CONFIG);
+
+    let settings: Partial<DQNSettings> = {};
+    const savedSettings = this.store.getItem(SETTINGS_KEY);
+    if (savedSettings) {
+      try { settings = JSON.parse(savedSettings); } catch (e) { console.error("Failed to load DQN settings", e); }
+    }
+    this.settings = resolveSettings({ ...settings, ...options.settings });
+
+    this.env = new Environment({
+      encoder: DQN_ENCODERS[this.settings.observation],
+      seed: this.rng.nextSeed(),
+      levelPack: options.levelPack,
+      gameConfig: options.gameConfig,
+      rewardFunction: options.rewardFunction
+    });
+    this.observation = this.env.observe();
+    this.buildNetworks(this.createNetwork());
+    this.loadFromStorage();
+    if (options.config) this.setConfig({ ...this.config, ...options.config });
+    this.applySchedules();
+  }
+
+  get game(): SnakeGame {
+    return this.env.game;
+  }
+
+  get gamma(): number {
+    return this.config.gamma;
+  }
+
+  get memorySize(): number {
+    return this.buffer.size;
+  }
+
+  get encoder(): ObservationEncoder<Float32Array> {
+    return this.env.encoder;
+  }
+
+  get demoSize(): number {
+    return this.demoBuffer?.size ?? 0;
+  }
+
+  get actionLabels(): string[] {
+    return this.env.actionSpace.labels!;
+  }
+
+  private createNetwork(): NeuralNetwork {
+    const sizes = [spaceSize(this.env.observationSpace), ...this.settings.hiddenLayers, this.env.actionSpace.n];
+    const activations = sizes.slice(1).map((_, i) => (i === sizes.length - 2 ? 'linear' : 'relu'));
+    return new NeuralNetwork(sizes, activations, this.rng.next);
+  }
+
+  /** Adopts `network` as the online network and starts its target copy, optimizer and buffer afresh. */
+  private buildNetworks(network: NeuralNetwork): void {
+    this.network = network;
+    this.targetNetwork = network.clone();
+    this.optimizer = new Adam(network);
+    this.gradients = new Float32Array(network.parameterCount);
+    this.buffer = new ReplayBuffer(this.settings.replayCapacity, network.inputSize, this.settings.prioritized);
+  }
+
+  setConfig(config: Partial<AgentConfig>): void {
+    this.config = resolveAgentConfig(config);
+    this.applyActionMode();
+    this.applySchedules();
+    this.syncDemoSteps();
+  }
+
+  // A network's outputs are tied to one action space, so switching starts a fresh one
+  private applyActionMode(): void {
+    this.env.actionMode = this.config.actionMode;
+    if (this.network.outputSize !== this.env.actionSpace.n) this.buildNetworks(this.createNetwork());
+  }
+
+  /** Legal-move mask for the game's current state, or null when masking is off. */
+  private legalMask(): boolean[] | null {
+    return this.config.maskActions ? this.env.legalActions() : null;
+  }
+
+  private applySchedules(): void {
+    this.alpha = evaluateSchedule(this.config.alpha, this.totalStepsEver);
+    this.epsilon = evaluateSchedule(this.config.epsilon, this.totalStepsEver);
+  }
+
+  getQValuesFor(game: SnakeGame): number[] {
+    return Array.from(this.network.forward(this.encoder.encode(game)));
+  }
+
+  getCurrentStateQValues(): number[] {
+    return Array.from(this.network.forward(this.observation));
+  }
+
+  /** ε-greedy over the current game's legal actions; `observation` must be its encoding. */
+  chooseAction(observation: Float32Array): number {
+    const mask = this.legalMask();
+    if (this.rng.next() < this.epsilon) return randomAction(this.env.actionSpace.n, mask, this.rng);
+    return argmax(this.network.forward(observation), mask);
+  }
+
+  update(): void {
+    if (this.game.state.isGameOver) return;
+
+    const observation = this.observation;
+    const action = this.chooseAction(observation);
+    const { observation: nextObservation, reward, done } = this.env.step(action);
+    // Timeouts are not terminal: the state was still worth something, the clock just ran out
+    this.buffer.add(observation, action, reward, nextObservation, done, done ? 0xff : maskToBits(this.legalMask()));
+    this.observation = nextObservation;
+
+    this.totalReward += reward;
+    this.totalStepsEver++;
+
+    const { learningStarts, trainEvery, targetSyncEvery, batchSize } = this.settings;
+    if (this.buffer.size >= learningStarts && this.totalStepsEver % trainEvery === 0) {
+      this.train(this.demoBuffer ? Math.round(batchSize * this.config.demoMix) : 0);
+    }
+    if (this.totalStepsEver % targetSyncEvery === 0) this.targetNetwork.setWeights(this.network.getWeights());
+    if (this.demoBuffer && this.totalStepsEver % DEMO_AGREEMENT_EVERY === 0) this.measureDemoAgreement();
+
+    this.applySchedules();
+  }
+
+  /**
+   * One Adam step on a batch, regressing Q(s, a) towards r + γ max_a' Q_target(s', a'). The first
+   * `demoSamples` transitions come from the demonstrations and also pay a large-margin loss,
+   * max_a [Q(s, a) + DEMO_MARGIN·(a ≠ a_demo)] − Q(s, a_demo); the rest come from the replay buffer.
+   */
+  private train(demoSamples: number = 0): void {
+    const { batchSize, huberDelta, prioritized, priorityAlpha, priorityBeta } = this.settings;
+    const replaySamples = batchSize - demoSamples;
+    const { indices, weights } = replaySamples > 0
+      ? this.buffer.sample(replaySamples, this.rng, priorityBeta)
+      : { indices: new Int32Array(0), weights: new Float32Array(0) };
+    const tdErrors = new Float32Array(replaySamples);
+    const outputGrad = new Float32Array(this.network.outputSize);
+    this.gradients.fill(0);
+    let loss = 0;
+
+    for (let j = 0; j < batchSize; j++) {
+      const fromDemo = j < demoSamples;
+      const buffer = fromDemo ? this.demoBuffer! : this.buffer;
+      const index = fromDemo ? this.rng.int(buffer.size) : indices[j - demoSamples];
+      const weight = fromDemo ? 1 : weights[j - demoSamples];
+      const action = buffer.actions[index];
+      let target = buffer.rewards[index];
+      if (!buffer.dones[index]) {
+        const nextQ = this.targetNetwork.forward(buffer.nextObservation(index));
+        const nextMask = buffer.nextMasks[index];
+        let best = -Infinity;
+        for (let a = 0; a < nextQ.length; a++) if (nextMask & (1 << a) && nextQ[a] > best) best = nextQ[a];
+        target += this.gamma * best;
+      }
+
+      const trace = this.network.forwardTrace(buffer.observation(index));
+      const q = trace[trace.length - 1];
+      const error = q[action] - target;
+      if (!fromDemo) tdErrors[j - demoSamples] = error;
+      const absError = Math.abs(error);
+      loss += weight * (absError <= huberDelta ? 0.5 * error * error : huberDelta * (absError - 0.5 * huberDelta));
+
+      outputGrad.fill(0);
+      outputGrad[action] = weight * Math.max(-huberDelta, Math.min(huberDelta, error)) / batchSize;
+      if (fromDemo) {
+        const rival = marginRival(q, action, this.demoMasks[index]);
+        if (rival !== -1) {
+          loss += q[rival] + DEMO_MARGIN - q[action];
+          outputGrad[rival] += 1 / batchSize;
+          outputGrad[action] -= 1 / batchSize;
+        }
+      }
+      this.network.backward(trace, outputGrad, this.gradients);
+    }
+
+    this.optimizer.step(this.gradients, this.alpha);
+    this.lastLoss = loss / batchSize;
+    if (prioritized && replaySamples > 0) this.buffer.updatePriorities(indices, tdErrors, priorityAlpha);
+  }
+
+  setDemonstrations(demos: Demonstration[]): void {
+    checkDemonstrations(demos, this.env);
+    this.demos = demos;
+    this.demoKey = '';
+    this.syncDemoSteps();
+  }
+
+  /**
+   * Re-plays the demonstrations into a buffer of the network's observations and actions if the action
+   * space changed, and re-measures agreement. Beyond the replay capacity only the latest steps are kept.
+   */
+  private syncDemoSteps(): void {
+    const key = `${this.encoder.id}/${this.config.actionMode}/${this.config.maskActions}`;
+    if (key !== this.demoKey) {
+      this.demoKey = key;
+      const steps = this.demos.reduce((n, demo) => n + demo.replay.actions.length, 0);
+      const capacity = Math.min(steps, this.settings.replayCapacity);
+      this.demoBuffer = null;
+      this.demoMasks = new Uint8Array(capacity);
+      if (capacity > 0) {
+        const buffer = new ReplayBuffer(capacity, this.network.inputSize);
+        let added = 0;
+        forEachDemoTransition(this.demos, this.env, this.config.maskActions, t => {
+          this.demoMasks[added++ % capacity] = maskToBits(t.mask);
+          buffer.add(t.observation, t.action, t.reward, t.nextObservation, t.done, maskToBits(t.nextMask));
+        });
+        if (buffer.size > 0) this.demoBuffer = buffer;
+      }
+    }
+    // The network may have changed under it too (a config switch or a load)
+    this.measureDemoAgreement();
+  }
+
+  /**
+   * Trains on the demonstrations alone: enough full demo batches for `epochs` passes over them,
+   * syncing the target network on the usual schedule of gradient steps.
+   */
+  pretrain(epochs: number): void {
+    const demoBuffer = this.demoBuffer;
+    if (!demoBuffer) throw new Error('No demonstrations loaded to pretrain on');
+    const { batchSize, trainEvery, targetSyncEvery } = this.settings;
+    const steps = Math.ceil((epochs * demoBuffer.size) / batchSize);
+    const syncEvery = Math.max(1, Math.round(targetSyncEvery / trainEvery));
+    for (let i = 1; i <= steps; i++) {
+      this.train(batchSize);
+      if (i % syncEvery === 0) this.targetNetwork.setWeights(this.network.getWeights());
+    }
+    this.targetNetwork.setWeights(this.network.getWeights());
+    this.measureDemoAgreement();
+  }
+
+  private measureDemoAgreement(): void {
+    const demoBuffer = this.demoBuffer;
+    const n = this.env.actionSpace.n;
+    this.demoAgreement = agreementRate(demoBuffer?.size ?? 0, i =>
+      argmax(this.network.forward(demoBuffer!.observation(i)), bitsToMask(this.demoMasks[i], n)) === demoBuffer!.actions[i]);
+  }
+
+  saveToStorage(): void {
+    this.store.setItem(NETWORK_KEY, this.network.serialize());
+    this.store.setItem(CONFIG_KEY, JSON.stringify(this.config));
+    this.store.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.store.setItem(STEPS_KEY, this.totalStepsEver.toString());
+  }
+
+  loadFromStorage(): void {
+    const savedNetwork = this.store.getItem(NETWORK_KEY);
+    const savedConfig = this.store.getItem(CONFIG_KEY);
+    const savedSteps = this.store.getItem(STEPS_KEY);
+    if (savedConfig) {
+      try {
+        this.config = resolveAgentConfig(JSON.parse(savedConfig));
+      } catch (e) { console.error("Failed to load agent config", e); }
+    }
+    this.applyActionMode();
+    if (savedNetwork) {
+      try {
+        const network = NeuralNetwork.deserialize(savedNetwork);
+        // A network saved for another observation or layout is left behind; training starts over
+        if (network.hasSameShape(this.network)) this.buildNetworks(network);
+      } catch (e) { console.error("Failed to load DQN network", e); }
+    }
+    if (savedSteps) this.totalStepsEver = parseInt(savedSteps, 10);
+    this.applySchedules();
+    this.syncDemoSteps();
+  }
+
+  exportModel(stats: QLearningStats): Uint8Array {
+    return encodeModel({
+      header: {
+        formatVersion: MODEL_FORMAT_VERSION,
+        agentType: 'dqn',
+        encoding: this.encoder.id,
+        hyperparameters: { ...this.config, ...this.settings },
+        trainingSteps: this.totalStepsEver,
+        stats,
+        createdAt: new Date().toISOString(),
+        layout: { kind: 'network', layerSizes: [...this.network.layerSizes], activations: [...this.network.activations] }
+      },
+      body: this.network.getWeights()
+    });
+  }
+
+  /** Replaces the network, hyperparameters and DQNSettings with a model file's. Returns the stats saved with it. */
+  importModel(bytes: Uint8Array): QLearningStats {
+    const { header, body } = decodeModel(bytes);
+    assertCompatibleModel(header, 'dqn', this.encoder.id);
+    const layout = header.layout;
+    if (layout.kind !== 'network') throw new Error('DQN model must hold a network');
+    const config = resolveAgentConfig(header.hyperparameters);
+    const inputs = this.network.inputSize;
+    const outputs = actionCount(config.actionMode);
+    if (layout.layerSizes[0] !== inputs || layout.layerSizes[layout.layerSizes.length - 1] !== outputs) {
+      throw new Error(`DQN model must map ${inputs} inputs to ${outputs} actions`);
+    }
+
+    // Exports carry every DQNSettings field next to the AgentConfig; any a file lacks keeps this agent's value
+    const saved: Partial<Record<keyof DQNSettings, unknown>> = {};
+    for (const key of Object.keys(DEFAULT_DQN_SETTINGS) as (keyof DQNSettings)[]) {
+      if (key in header.hyperparameters) saved[key] = header.hyperparameters[key];
+    }
+    const settings = resolveSettings({ ...this.settings, ...saved as Partial<DQNSettings>, hiddenLayers: layout.layerSizes.slice(1, -1) });
+
+    const network = new NeuralNetwork(layout.layerSizes, layout.activations);
+    network.setWeights(body);
+    this.settings = settings;
+    this.env.actionMode = config.actionMode;
+    this.buildNetworks(network);
+    this.totalStepsEver = header.trainingSteps;
+    this.setConfig(config);
+    return header.stats as QLearningStats;
+  }
+
+  /** Starts a new episode on `level`, by default the one the last episode reached. */
+  reset(level: number = this.game.state.level): void {
+    if (this.game.replay) this.lastReplay = this.game.replay;
+    this.env.record = this.recordEpisodes;
+    this.observation = this.env.reset(this.rng.nextSeed(), { level }).observation;
+    this.totalReward = 0;
+  }
+}
@@ -0,0 +1,280 @@
+
+import { SnakeGame } from '../game/SnakeGame';
+import { NeuralNetwork } from './NeuralNetwork';
+import { Random } from '../game/Random';
+import { ACTIONS, Environment } from '../env/Environment';
+import { RAY_VISION_ENCODER, RAY_VISION_SIZE } from '../env/encoders';
+import { assertCompatibleModel, decodeModel, encodeModel, MODEL_FORMAT_VERSION } from './modelFile';
+import { GameConfig, GeneticStats, LevelPack } from '../types';
+
+export interface GeneticConfig {
+  populationSize: number;
+  eliteCount: number;
+  tournamentSize: number;
+  crossoverRate: number;
+  mutationRate: number;
+  mutationStrength: number;
+  hiddenLayers: number[];
+  starvationSteps: number; // Genome dies if it goes this long without eating
+}
+
+export const DEFAULT_GENETIC_CONFIG: GeneticConfig = {
+  populationSize: 60,
+  eliteCount: 4,
+  tournamentSize: 3,
+  crossoverRate: 0.7,
+  mutationRate: 0.1,
+  mutationStrength: 0.3,
+  hiddenLayers: [16],
+  starvationSteps: 200
+};
+
+// Genomes see the ray-vision observation
+export const GENETIC_INPUT_SIZE = RAY_VISION_SIZE;
+const HISTORY_LIMIT = 500;
+
+export interface GeneticAgentOptions {
+  seed?: number; // Seeds weight init, breeding and every generation's game seed
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+}
+
+interface Genome {
+  brain: NeuralNetwork;
+  env: Environment<Float32Array>;
+  observation: Float32Array; // Latest observation from env, reused for the next action
+  fitness: number;
+  stepsSinceFood: number;
+  lastScore: number;
+  alive: boolean;
+}
+
+/**
+ * Population-based neuroevolution. Each genome plays its own SnakeGame;
+ * once every genome has died the next generation is bred from the results.
+ */
+export class GeneticAgent {
+  config: GeneticConfig;
+  population: Genome[] = [];
+  generation: number = 0;
+  startLevel: number;
+  bestFitnessEver: number = 0;
+  bestScoreEver: number = 0;
+  bestFitnessHistory: number[] = [];
+  meanFitnessHistory: number[] = [];
+  worstFitnessHistory: number[] = [];
+  totalStepsEver: number = 0;
+  // Brain of the fittest genome seen so far; what exportModel() saves
+  bestBrain: NeuralNetwork | null = null;
+  rng: Random;
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+  // Every genome of a generation plays the same seeded episode, so fitness is comparable
+  private generationSeed: number;
+
+  constructor(config: Partial<GeneticConfig> = {}, startLevel: number = 1, options: GeneticAgentOptions = {}) {
+    this.config = { ...DEFAULT_GENETIC_CONFIG, ...config };
+    this.startLevel = startLevel;
+    this.rng = new Random(options.seed);
+    this.levelPack = options.levelPack;
+    this.gameConfig = options.gameConfig;
+    this.generationSeed = this.rng.nextSeed();
+    const layers = [GENETIC_INPUT_SIZE, ...this.config.hiddenLayers, ACTIONS.length];
+    for (let i = 0; i < this.config.populationSize; i++) {
+      this.population.push(this.createGenome(new NeuralNetwork(layers, undefined, this.rng.next)));
+    }
+  }
+
+  private createGenome(brain: NeuralNetwork): Genome {
+    // Same environment seed for every genome, so they all get the same first episode
+    const env = new Environment({ encoder: RAY_VISION_ENCODER, seed: this.generationSeed, level: this.startLevel, levelPack: this.levelPack, gameConfig: this.gameConfig });
+    return { brain, env, observation: env.observe(), fitness: 0, stepsSinceFood: 0, lastScore: 0, alive: true };
+  }
+
+  static chooseAction(brain: NeuralNetwork, observation: Float32Array): number {
+    const outputs = brain.forward(observation);
+    let maxIdx = 0;
+    for (let i = 1; i < outputs.length; i++) {
+      if (outputs[i] > outputs[maxIdx]) maxIdx = i;
+    }
+    return maxIdx;
+  }
+
+  get aliveCount(): number {
+    return this.population.filter(g => g.alive).length;
+  }
+
+  /** The live genome with the highest score, used for rendering. Falls back to the first genome. */
+  get leader(): Genome {
+    let leader: Genome | null = null;
+    for (const g of this.population) {
+      if (g.alive && (!leader || g.env.game.state.score > leader.env.game.state.score)) leader = g;
+    }
+    return leader || this.population[0];
+  }
+
+  get game(): SnakeGame {
+    return this.leader.env.game;
+  }
+
+  getLeaderOutputs(): number[] {
+    const leader = this.leader;
+    return Array.from(leader.brain.forward(leader.observation));
+  }
+
+  /** Advances every live genome by one step. Breeds a new generation when all have died. */
+  update(): void {
+    let anyAlive = false;
+    for (const g of this.population) {
+      if (!g.alive) continue;
+      const game = g.env.game;
+      const levelBefore = game.state.level;
+      g.observation = g.env.step(GeneticAgent.chooseAction(g.brain, g.observation)).observation;
+      this.totalStepsEver++;
+
+      if (game.state.score > g.lastScore || game.state.level > levelBefore) {
+        g.stepsSinceFood = 0;
+        g.lastScore = game.state.score;
+      } else {
+        g.stepsSinceFood++;
+      }
+
+      if (game.state.isGameOver || g.stepsSinceFood > this.config.starvationSteps) {
+        g.alive = false;
+        g.fitness = this.evaluateFitness(g);
+      } else {
+        anyAlive = true;
+      }
+    }
+    if (!anyAlive) this.evolve();
+  }
+
+  /** Runs the current generation to completion and breeds the next one. */
+  runGeneration(): void {
+    const generation = this.generation;
+    while (this.generation === generation) this.update();
+  }
+
+  private evaluateFitness(g: Genome): number {
+    const s = g.env.game.state;
+    const levelsCleared = s.level - this.startLevel;
+    // Score dominates; survival time only breaks ties between genomes that never eat
+    return s.score * 100 + levelsCleared * 1000 + Math.min(s.steps, this.config.starvationSteps) * 0.1;
+  }
+
+  private selectParent(sorted: Genome[]): Genome {
+    let best = sorted[this.rng.int(sorted.length)];
+    for (let i = 1; i < this.config.tournamentSize; i++) {
+      const challenger = sorted[this.rng.int(sorted.length)];
+      if (challenger.fitness > best.fitness) best = challenger;
+    }
+    return best;
+  }
+
+  private evolve(): void {
+    const sorted = [...this.population].sort((a, b) => b.fitness - a.fitness);
+    const fitnesses = sorted.map(g => g.fitness);
+    const best = fitnesses[0];
+    const worst = fitnesses[fitnesses.length - 1];
+    const mean = fitnesses.reduce((a, b) => a + b, 0) / fitnesses.length;
+
+    if (!this.bestBrain || best >= this.bestFitnessEver) this.bestBrain = sorted[0].brain.clone();
+    this.bestFitnessEver = Math.max(this.bestFitnessEver, best);
+    this.bestScoreEver = Math.max(this.bestScoreEver, ...sorted.map(g => g.env.game.state.score));
+    this.pushHistory(this.bestFitnessHistory, best);
+    this.pushHistory(this.meanFitnessHistory, mean);
+    this.pushHistory(this.worstFitnessHistory, worst);
+
+    this.generationSeed = this.rng.nextSeed();
+    const next: Genome[] = [];
+    for (let i = 0; i < Math.min(this.config.eliteCount, sorted.length); i++) {
+      next.push(this.createGenome(sorted[i].brain.clone()));
+    }
+    while (next.length < this.config.populationSize) {
+      const a = this.selectParent(sorted);
+      const child = this.rng.next() < this.config.crossoverRate
+        ? NeuralNetwork.crossover(a.brain, this.selectParent(sorted).brain, this.rng.next)
+        : a.brain.clone();
+      child.mutate(this.config.mutationRate, this.config.mutationStrength, this.rng.next);
+      next.push(this.createGenome(child));
+    }
+
+    this.population = next;
+    this.generation++;
+  }
+
+  private pushHistory(history: number[], value: number): void {
+    history.push(value);
+    if (history.length > HISTORY_LIMIT) history.shift();
+  }
+
+  /** Binary model file with the best brain so far (the leader's before the first generation ends). */
+  exportModel(): Uint8Array {
+    const brain = this.bestBrain || this.leader.brain;
+    const { populationSize, eliteCount, tournamentSize, crossoverRate, mutationRate, mutationStrength, hiddenLayers, starvationSteps } = this.config;
+    return encodeModel({
+      header: {
+        formatVersion: MODEL_FORMAT_VERSION,
+        agentType: 'genetic',
+        encoding: RAY_VISION_ENCODER.id,
+        hyperparameters: { populationSize, eliteCount, tournamentSize, crossoverRate, mutationRate, mutationStrength, hiddenLayers, starvationSteps },
+        trainingSteps: this.totalStepsEver,
+        stats: this.getStats(),
+        createdAt: new Date().toISOString(),
+        layout: { kind: 'network', layerSizes: brain.layerSizes, activations: brain.activations }
+      },
+      body: brain.getWeights()
+    });
+  }
+
+  /**
+   * Restarts evolution from a model file: one exact copy of the saved brain plus
+   * mutated copies for the rest of the population. Stats and history carry over.
+   */
+  importModel(bytes: Uint8Array): void {
+    const { header, body } = decodeModel(bytes);
+    assertCompatibleModel(header, 'genetic', RAY_VISION_ENCODER.id);
+    const layout = header.layout;
+    if (layout.kind !== 'network') throw new Error('Genetic model must hold network weights');
+    const sizes = layout.layerSizes;
+    if (sizes[0] !== GENETIC_INPUT_SIZE || sizes[sizes.length - 1] !== ACTIONS.length) {
+      throw new Error(`Model network is ${sizes.join('-')} but the genetic agent needs ${GENETIC_INPUT_SIZE} inputs and ${ACTIONS.length} outputs`);
+    }
+
+    const brain = new NeuralNetwork(sizes, layout.activations);
+    brain.setWeights(body);
+    this.config = { ...this.config, hiddenLayers: sizes.slice(1, -1) };
+    this.bestBrain = brain.clone();
+
+    const stats = header.stats as GeneticStats;
+    this.generation = stats.generation ?? 0;
+    this.bestFitnessEver = stats.bestFitnessEver ?? 0;
+    this.bestScoreEver = stats.bestScoreEver ?? 0;
+    this.bestFitnessHistory = [...(stats.bestFitnessHistory ?? [])];
+    this.meanFitnessHistory = [...(stats.meanFitnessHistory ?? [])];
+    this.worstFitnessHistory = [...(stats.worstFitnessHistory ?? [])];
+    this.totalStepsEver = header.trainingSteps;
+
+    this.generationSeed = this.rng.nextSeed();
+    this.population = [this.createGenome(brain)];
+    while (this.population.length < this.config.populationSize) {
+      const child = brain.clone();
+      child.mutate(this.config.mutationRate, this.config.mutationStrength, this.rng.next);
+      this.population.push(this.createGenome(child));
+    }
+  }
+
+  getStats(): GeneticStats {
+    return {
+      generation: this.generation,
+      populationSize: this.population.length,
+      aliveCount: this.aliveCount,
+      bestFitnessEver: this.bestFitnessEver,
+      bestScoreEver: this.bestScoreEver,
+      totalStepsEver: this.totalStepsEver,
+      bestFitnessHistory: [...this.bestFitnessHistory],
+      meanFitnessHistory: [...this.meanFitnessHistory],
+      worstFitnessHistory: [...this.worstFitnessHistory]
+    };
+  }
+}
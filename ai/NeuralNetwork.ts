@@ -0,0 +1,249 @@
+export type Activation = 'linear' | 'relu' | 'leakyRelu' | 'tanh' | 'sigmoid';
+
+export interface NeuralNetworkJSON {
+  layerSizes: number[];
+  activations: Activation[];
+  weights: number[]; // Flat parameter vector, see getWeights()
+}
+
+const activate = (fn: Activation, x: number): number => {
+  switch (fn) {
+    case 'relu': return x > 0 ? x : 0;
+    case 'leakyRelu': return x > 0 ? x : 0.01 * x;
+    case 'tanh': return Math.tanh(x);
+    case 'sigmoid': return 1 / (1 + Math.exp(-x));
+    default: return x;
+  }
+};
+
+// Derivative in terms of the activation's output y = f(x), which is what forwardTrace() keeps
+const derivative = (fn: Activation, y: number): number => {
+  switch (fn) {
+    case 'relu': return y > 0 ? 1 : 0;
+    case 'leakyRelu': return y > 0 ? 1 : 0.01;
+    case 'tanh': return 1 - y * y;
+    case 'sigmoid': return y * (1 - y);
+    default: return 1;
+  }
+};
+
+// Box-Muller transform, used for weight init and mutation noise
+const gaussian = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Dependency-free fully connected feed-forward network.
+ * Weights are stored per layer as row-major [out][in] Float32Arrays.
+ */
+export class NeuralNetwork {
+  readonly layerSizes: number[];
+  readonly activations: Activation[]; // One per non-input layer
+  weights: Float32Array[];
+  biases: Float32Array[];
+
+  constructor(layerSizes: number[], activations?: Activation[], random: () => number = Math.random) {
+    if (layerSizes.length < 2) throw new Error('NeuralNetwork needs at least an input and an output layer');
+    if (layerSizes.some(n => !Number.isInteger(n) || n < 1)) throw new Error(`Invalid layer sizes: ${layerSizes.join(',')}`);
+
+    const layerCount = layerSizes.length - 1;
+    this.layerSizes = [...layerSizes];
+    // Default: tanh hidden layers, linear output
+    this.activations = activations
+      ? [...activations]
+      : Array.from({ length: layerCount }, (_, i) => (i === layerCount - 1 ? 'linear' : 'tanh'));
+    if (this.activations.length !== layerCount) {
+      throw new Error(`Expected ${layerCount} activations, got ${this.activations.length}`);
+    }
+
+    this.weights = [];
+    this.biases = [];
+    for (let l = 0; l < layerCount; l++) {
+      const inSize = layerSizes[l];
+      const outSize = layerSizes[l + 1];
+      const w = new Float32Array(inSize * outSize);
+      // Xavier-style scaling keeps tanh layers out of saturation at init
+      const scale = Math.sqrt(2 / (inSize + outSize));
+      for (let i = 0; i < w.length; i++) w[i] = gaussian(random) * scale;
+      this.weights.push(w);
+      this.biases.push(new Float32Array(outSize));
+    }
+  }
+
+  get inputSize(): number {
+    return this.layerSizes[0];
+  }
+
+  get outputSize(): number {
+    return this.layerSizes[this.layerSizes.length - 1];
+  }
+
+  get parameterCount(): number {
+    let count = 0;
+    for (let l = 0; l < this.weights.length; l++) count += this.weights[l].length + this.biases[l].length;
+    return count;
+  }
+
+  forward(input: ArrayLike<number>): Float32Array {
+    const trace = this.forwardTrace(input);
+    return trace[trace.length - 1];
+  }
+
+  /** Like forward(), but returns every layer's output (input first) for backward(). */
+  forwardTrace(input: ArrayLike<number>): Float32Array[] {
+    if (input.length !== this.inputSize) {
+      throw new Error(`Expected ${this.inputSize} inputs, got ${input.length}`);
+    }
+    const trace = [input instanceof Float32Array ? input : Float32Array.from(input)];
+    let current: ArrayLike<number> = input;
+    for (let l = 0; l < this.weights.length; l++) {
+      const inSize = this.layerSizes[l];
+      const outSize = this.layerSizes[l + 1];
+      const w = this.weights[l];
+      const b = this.biases[l];
+      const fn = this.activations[l];
+      const next = new Float32Array(outSize);
+      for (let o = 0; o < outSize; o++) {
+        let sum = b[o];
+        const row = o * inSize;
+        for (let i = 0; i < inSize; i++) sum += w[row + i] * current[i];
+        next[o] = activate(fn, sum);
+      }
+      trace.push(next);
+      current = next;
+    }
+    return trace;
+  }
+
+  /**
+   * Backpropagates dLoss/dOutput through a forwardTrace() and adds the parameter gradients
+   * to `gradients`, which is laid out like getWeights().
+   */
+  backward(trace: Float32Array[], outputGrad: ArrayLike<number>, gradients: Float32Array): void {
+    if (gradients.length !== this.parameterCount) {
+      throw new Error(`Expected ${this.parameterCount} gradients, got ${gradients.length}`);
+    }
+    const layerCount = this.weights.length;
+    const offsets: number[] = [];
+    let offset = 0;
+    for (let l = 0; l < layerCount; l++) {
+      offsets.push(offset);
+      offset += this.weights[l].length + this.biases[l].length;
+    }
+
+    const output = trace[layerCount];
+    let delta = new Float32Array(output.length);
+    for (let o = 0; o < output.length; o++) delta[o] = outputGrad[o] * derivative(this.activations[layerCount - 1], output[o]);
+
+    for (let l = layerCount - 1; l >= 0; l--) {
+      const inSize = this.layerSizes[l];
+      const outSize = this.layerSizes[l + 1];
+      const w = this.weights[l];
+      const input = trace[l];
+      const wOffset = offsets[l];
+      const bOffset = wOffset + w.length;
+      for (let o = 0; o < outSize; o++) {
+        const g = delta[o];
+        if (g === 0) continue;
+        gradients[bOffset + o] += g;
+        const row = o * inSize;
+        for (let i = 0; i < inSize; i++) gradients[wOffset + row + i] += g * input[i];
+      }
+      if (l === 0) break;
+
+      const prev = new Float32Array(inSize);
+      const fn = this.activations[l - 1];
+      for (let o = 0; o < outSize; o++) {
+        const g = delta[o];
+        if (g === 0) continue;
+        const row = o * inSize;
+        for (let i = 0; i < inSize; i++) prev[i] += w[row + i] * g;
+      }
+      for (let i = 0; i < inSize; i++) prev[i] *= derivative(fn, input[i]);
+      delta = prev;
+    }
+  }
+
+  /** Flattens all parameters as [w0, b0, w1, b1, ...]. */
+  getWeights(): Float32Array {
+    const flat = new Float32Array(this.parameterCount);
+    let offset = 0;
+    for (let l = 0; l < this.weights.length; l++) {
+      flat.set(this.weights[l], offset); offset += this.weights[l].length;
+      flat.set(this.biases[l], offset); offset += this.biases[l].length;
+    }
+    return flat;
+  }
+
+  setWeights(flat: ArrayLike<number>): void {
+    if (flat.length !== this.parameterCount) {
+      throw new Error(`Expected ${this.parameterCount} parameters, got ${flat.length}`);
+    }
+    let offset = 0;
+    for (let l = 0; l < this.weights.length; l++) {
+      const w = this.weights[l];
+      for (let i = 0; i < w.length; i++) w[i] = flat[offset++];
+      const b = this.biases[l];
+      for (let i = 0; i < b.length; i++) b[i] = flat[offset++];
+    }
+  }
+
+  clone(): NeuralNetwork {
+    const copy = new NeuralNetwork(this.layerSizes, this.activations);
+    copy.setWeights(this.getWeights());
+    return copy;
+  }
+
+  /** Adds gaussian noise of the given strength to each parameter with probability `rate`. */
+  mutate(rate: number, strength: number, random: () => number = Math.random): void {
+    const mutateArray = (arr: Float32Array) => {
+      for (let i = 0; i < arr.length; i++) {
+        if (random() < rate) arr[i] += gaussian(random) * strength;
+      }
+    };
+    this.weights.forEach(mutateArray);
+    this.biases.forEach(mutateArray);
+  }
+
+  /** Uniform crossover: each parameter is taken from either parent with equal probability. */
+  static crossover(a: NeuralNetwork, b: NeuralNetwork, random: () => number = Math.random): NeuralNetwork {
+    if (!a.hasSameShape(b)) throw new Error('Cannot cross over networks with different topologies');
+    const wa = a.getWeights();
+    const wb = b.getWeights();
+    const child = new Float32Array(wa.length);
+    for (let i = 0; i < wa.length; i++) child[i] = random() < 0.5 ? wa[i] : wb[i];
+    const net = new NeuralNetwork(a.layerSizes, a.activations);
+    net.setWeights(child);
+    return net;
+  }
+
+  hasSameShape(other: NeuralNetwork): boolean {
+    return this.layerSizes.length === other.layerSizes.length
+      && this.layerSizes.every((n, i) => n === other.layerSizes[i])
+      && this.activations.every((fn, i) => fn === other.activations[i]);
+  }
+
+  toJSON(): NeuralNetworkJSON {
+    return {
+      layerSizes: [...this.layerSizes],
+      activations: [...this.activations],
+      weights: Array.from(this.getWeights())
+    };
+  }
+
+  static fromJSON(json: NeuralNetworkJSON): NeuralNetwork {
+    const net = new NeuralNetwork(json.layerSizes, json.activations);
+    net.setWeights(json.weights);
+    return net;
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  static deserialize(data: string): NeuralNetwork {
+    return NeuralNetwork.fromJSON(JSON.parse(data));
+  }
+}
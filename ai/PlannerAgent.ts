@@ -0,0 +1,144 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { RewardFunction } from '../game/rewards';
+import { Environment, ACTIONS } from '../env/Environment';
+import { TABULAR_ENCODER } from '../env/encoders';
+import { createEmptyQLearningStats } from './QLearningTrainer';
+import { Planner, PlannerKind, PlannerMove, createPlanner } from './planners';
+import { Demonstration, GameConfig, LevelPack, QLearningStats, Replay } from '../types';
+
+const HISTORY_LIMIT = 500;
+
+export interface PlannerAgentOptions {
+  seed?: number; // Seeds every episode's SnakeGame
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+  rewardFunction?: RewardFunction;
+  restartLevel?: number; // Level each new episode starts on; by default it carries on from the level reached, like the learning agents
+}
+
+/**
+ * Plays a planner through the same Environment the learning agents use, and keeps its
+ * episode stats in QLearningStats form so the dashboard can show them unchanged.
+ */
+export class PlannerAgent {
+  readonly kind: PlannerKind;
+  planner: Planner;
+  env: Environment<string>;
+  rng: Random;
+  restartLevel?: number;
+  totalReward: number = 0;
+  totalStepsEver: number = 0;
+  recordEpisodes: boolean = false;
+  lastReplay: Replay | null = null;
+
+  private pending: PlannerMove | null = null;
+  private episodes: number = 0;
+  private bestScoreEver: number = 0;
+  private scoreHistory: number[] = [];
+  private levelClears: number = 0;
+
+  constructor(kind: PlannerKind, options: PlannerAgentOptions = {}) {
+    this.kind = kind;
+    this.planner = createPlanner(kind);
+    this.rng = new Random(options.seed);
+    this.restartLevel = options.restartLevel;
+    this.env = new Environment({
+      encoder: TABULAR_ENCODER,
+      seed: this.rng.nextSeed(),
+      level: options.restartLevel,
+      levelPack: options.levelPack,
+      gameConfig: options.gameConfig,
+      rewardFunction: options.rewardFunction
+    });
+  }
+
+  get game(): SnakeGame {
+    return this.env.game;
+  }
+
+  /** What the planner will do on the next update, computed once per step. */
+  get nextMove(): PlannerMove {
+    if (!this.pending) this.pending = this.planner.plan(this.game);
+    return this.pending;
+  }
+
+  /** 1 for the planned move and 0 for the rest, in ACTIONS order, for the action bars. */
+  getActionValues(): number[] {
+    if (this.game.state.isGameOver) return ACTIONS.map(() => 0);
+    const direction = this.nextMove.direction;
+    return ACTIONS.map(a => (a === direction ? 1 : 0));
+  }
+
+  update(): void {
+    if (this.game.state.isGameOver) return;
+    const level = this.game.state.level;
+    const { reward } = this.env.step(ACTIONS.indexOf(this.nextMove.direction));
+    this.pending = null;
+    this.totalReward += reward;
+    this.totalStepsEver++;
+    if (this.game.state.level > level) this.levelClears++;
+  }
+
+  reset(): void {
+    if (this.game.replay) this.lastReplay = this.game.replay;
+    this.env.record = this.recordEpisodes;
+    this.env.reset(this.rng.nextSeed(), { level: this.restartLevel ?? this.game.state.level });
+    this.pending = null;
+    this.totalReward = 0;
+  }
+
+  /** Runs `iterations` updates, resetting finished episodes. Returns the number of episodes completed. */
+  tick(iterations: number): number {
+    let finished = 0;
+    for (let i = 0; i < iterations; i++) {
+      if (this.game.state.isGameOver) {
+        finished++;
+        const score = this.game.state.score;
+        if (score > this.bestScoreEver) this.bestScoreEver = score;
+        this.scoreHistory.push(score);
+        if (this.scoreHistory.length > HISTORY_LIMIT) this.scoreHistory.shift();
+        this.reset();
+      }
+      this.update();
+    }
+    this.episodes += finished;
+    return finished;
+  }
+
+  getStats(): QLearningStats {
+    const recent = this.scoreHistory.slice(-100);
+    const avg = recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length : 0;
+    return {
+      ...createEmptyQLearningStats(),
+      episodes: this.episodes,
+      epsilon: 0,
+      totalReward: this.totalReward,
+      bestScoreEver: this.bestScoreEver,
+      avgScoreLast100: parseFloat(avg.toFixed(2)),
+      currentLevel: this.game.state.level,
+      totalStepsEver: this.totalStepsEver,
+      levelSuccessRate: parseFloat(((this.levelClears / Math.max(1, this.episodes)) * 100).toFixed(2)),
+      scoreHistory: [...this.scoreHistory]
+    };
+  }
+}
+
+/**
+ * Plays `episodes` planner episodes and returns them as demonstrations to imitate, each cut
+ * short after `maxSteps`. Agents only accept them if they train on the same level pack.
+ */
+export const recordPlannerDemos = (
+  kind: PlannerKind, episodes: number, options: Pick<PlannerAgentOptions, 'seed' | 'levelPack' | 'gameConfig' | 'restartLevel'> & { maxSteps?: number } = {}
+): Demonstration[] => {
+  const agent = new PlannerAgent(kind, options);
+  const maxSteps = options.maxSteps ?? Infinity;
+  agent.recordEpisodes = true;
+  const demos: Demonstration[] = [];
+  while (demos.length < episodes) {
+    agent.reset();
+    for (let t = 0; t < maxSteps && !agent.game.state.isGameOver; t++) agent.update();
+    demos.push({ source: kind, replay: agent.game.replay!, createdAt: new Date().toISOString() });
+  }
+  return demos;
+};
@@ -1,150 +1,559 @@
 
-import { SnakeGame, GRID_SIZE } from '../game/SnakeGame';
-import { Direction } from '../types';
-
-export class QLearningAgent {
-  qTable: Map<string, number[]>;
-  alpha: number = 0.25; 
-  gamma: number = 0.95; 
-  epsilon: number = 1.0; 
-  epsilonMin: number = 0.01;
-  epsilonDecay: number = 0.999997; // Slower decay for better long-term exploration
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { KeyValueStore, getDefaultStore } from '../storage/KeyValueStore';
+import { RewardFunction } from '../game/rewards';
+import { Environment, actionCount } from '../env/Environment';
+import { ObservationEncoder, TABULAR_ENCODER, TABULAR_ENCODERS, tabularEncodingById } from '../env/encoders';
+import { assertCompatibleModel, decodeModel, encodeModel, MODEL_FORMAT_VERSION } from './modelFile';
+import { resolveAgentConfig } from './agentConfig';
+import { evaluateSchedule } from './schedules';
+import { QValueAgent } from './QValueAgent';
+import { argmax, maskToBits, maxValue, randomAction } from './actionMask';
+import { DEMO_AGREEMENT_EVERY, DEMO_MARGIN, DemoTransition, agreementRate, checkDemonstrations, forEachDemoTransition, marginRival } from './imitation';
+import { AgentConfig, Demonstration, GameConfig, LevelPack, QLearningStats, Replay, TabularEncoding } from '../types';
+
+const QTABLE_KEY = 'qs_v6_qtable';
+const QTABLE_B_KEY = 'qs_v6_qtable_b';
+const CONFIG_KEY = 'qs_v6_config';
+const STEPS_KEY = 'qs_v6_steps';
+const ENCODINGS = Object.keys(TABULAR_ENCODERS) as TabularEncoding[];
+const qTableKey = (encoding: TabularEncoding): string => `${QTABLE_KEY}_${TABULAR_ENCODERS[encoding].id}`;
+
+// Every id an encoding had before its current one, e.g. tabular-v2+items-v1 for tabular-v3+items-v2
+const supersededIds = (id: string): string[] =>
+  id.split('+').reduce<string[]>((ids, part) => {
+    const [, name, version] = /^(.*)-v(\d+)$/.exec(part)!;
+    const versions = Array.from({ length: Number(version) }, (_, v) => `${name}-v${v + 1}`);
+    return ids.flatMap(prefix => versions.map(p => (prefix ? `${prefix}+${p}` : p)));
+  }, ['']).filter(old => old !== id);
+
+// Tables keyed on state strings the encoders no longer produce, deleted on load: the unversioned
+// key the basic table used to live under, and every older version of each encoding
+const SUPERSEDED_QTABLE_KEYS = [
+  QTABLE_KEY,
+  ...new Set(ENCODINGS.flatMap(encoding => supersededIds(TABULAR_ENCODERS[encoding].id).map(id => `${QTABLE_KEY}_${id}`)))
+];
+// Everything the agent persists, for callers that copy a model between stores
+export const QLEARNING_STORAGE_KEYS = [...ENCODINGS.map(qTableKey), QTABLE_B_KEY, CONFIG_KEY, STEPS_KEY];
+
+// Eligibility traces below this are dropped so the trace map stays a few dozen entries long
+const TRACE_CUTOFF = 0.001;
+
+export interface QLearningAgentOptions {
+  seed?: number; // Seeds exploration and every episode's SnakeGame
+  store?: KeyValueStore; // Defaults to localStorage in the browser, memory elsewhere
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+  rewardFunction?: RewardFunction; // Defaults to event rewards plus proximity shaping
+  config?: Partial<AgentConfig>; // Overrides a saved config; see DEFAULT_AGENT_CONFIG
+}
+
+/**
+ * Tabular agent over one of the TABULAR_ENCODERS' states (`config.stateEncoding`), with a separate
+ * Q-table per encoder id. `config.algorithm` picks the update rule: Q-learning, SARSA, Expected SARSA,
+ * Double Q (second table in qTableB) or Watkins Q(λ) / SARSA(λ) with replacing eligibility traces.
+ * All of them share the table, storage and model format.
+ */
+export class QLearningAgent implements QValueAgent {
+  qTable: Map<string, number[]>; // The active encoding's entry in `tables`
+  qTableB: Map<string, number[]>; // Double Q's second estimator, for the active encoding; empty for the other algorithms
+  tables: Map<string, Map<string, number[]>> = new Map(); // Keyed by encoder id
+  config: AgentConfig;
+  // Current values of the alpha and epsilon schedules, updated every step
+  alpha: number;
+  epsilon: number;
   
-  game: SnakeGame;
+  env: Environment<string>;
   totalReward: number = 0;
   totalStepsEver: number = 0;
+  rng: Random;
+  store: KeyValueStore;
+  // When set, each new episode keeps a Replay; the previous one survives reset() in lastReplay
+  recordEpisodes: boolean = false;
+  lastReplay: Replay | null = null;
+  demoAgreement: number | null = null;
+
+  // On-policy algorithms pick the next action while updating, then take it on the following step
+  private nextAction: number | null = null;
+  private traces: Map<string, number[]> = new Map();
+  private demos: Demonstration[] = [];
+  private demoSteps: DemoTransition<string>[] = [];
+  private demoKey: string = ''; // Encoding and action space demoSteps were built for
   
-  constructor() {
+  constructor(options: QLearningAgentOptions = {}) {
     this.qTable = new Map();
-    this.game = new SnakeGame();
+    this.qTableB = new Map();
+    this.tables.set(TABULAR_ENCODER.id, this.qTable);
+    this.rng = new Random(options.seed);
+    this.store = options.store || getDefaultStore();
+    this.env = new Environment({
+      encoder: TABULAR_ENCODER,
+      seed: this.rng.nextSeed(),
+      levelPack: options.levelPack,
+      gameConfig: options.gameConfig,
+      rewardFunction: options.rewardFunction
+    });
+    this.config = resolveAgentConfig();
     this.loadFromStorage();
+    if (options.config) this.setConfig({ ...this.config, ...options.config });
+    this.applySchedules();
   }
 
-  getStateString(): string {
-    const head = this.game.state.snake[0];
-    const food = this.game.state.food;
-    const snake = this.game.state.snake;
-    const target = this.game.state.portalOpen ? this.game.state.portalPoint! : food;
+  get game(): SnakeGame {
+    return this.env.game;
+  }
 
-    // 1. Target relative position
-    const tX = target.x < head.x ? "L" : target.x > head.x ? "R" : "C";
-    const tY = target.y < head.y ? "U" : target.y > head.y ? "D" : "C";
+  get gamma(): number {
+    return this.config.gamma;
+  }
 
-    // 2. Obstacle Sensing (1-step and 2-step lookahead)
-    const isBlocking = (x: number, y: number) => {
-      if (x < 0 || x >= GRID_SIZE || y < 0 || y >= GRID_SIZE) return true;
-      if (this.game.isPointWall(x, y)) return true;
-      // Faster snake collision check (only if board is not huge)
-      for(let i = 0; i < snake.length; i++) {
-        if (snake[i].x === x && snake[i].y === y) return true;
-      }
-      return false;
-    };
+  get memorySize(): number {
+    return this.qTable.size;
+  }
+
+  get encoder(): ObservationEncoder<string> {
+    return this.env.encoder;
+  }
+
+  get actionCount(): number {
+    return this.env.actionSpace.n;
+  }
+
+  get actionLabels(): string[] {
+    return this.env.actionSpace.labels!;
+  }
+
+  get demoSize(): number {
+    return this.demoSteps.length;
+  }
+
+  /** Validates and switches to a new config; schedules pick up at the current step count. */
+  setConfig(config: Partial<AgentConfig>): void {
+    this.config = resolveAgentConfig(config);
+    if (this.config.actionMode !== this.env.actionMode) {
+      // Values learned for one set of actions mean nothing for the other
+      this.env.actionMode = this.config.actionMode;
+      this.tables.forEach(table => table.clear());
+      this.qTableB.clear();
+    }
+    this.selectEncoding();
+    this.syncTables();
+    this.nextAction = null;
+    this.traces.clear();
+    this.applySchedules();
+    this.syncDemoSteps();
+  }
+
+  /** Points qTable at the configured encoding's table, first folding Double Q's second table into the one being left. */
+  private selectEncoding(): void {
+    const encoder = TABULAR_ENCODERS[this.config.stateEncoding];
+    if (encoder === this.env.encoder) return;
+    this.mergeTableB();
+    this.env.encoder = encoder;
+    this.qTable = this.tableFor(encoder.id);
+  }
+
+  private tableFor(encoderId: string): Map<string, number[]> {
+    let table = this.tables.get(encoderId);
+    if (!table) {
+      table = new Map();
+      this.tables.set(encoderId, table);
+    }
+    return table;
+  }
 
-    const dU = isBlocking(head.x, head.y - 1) ? "1" : "0";
-    const dD = isBlocking(head.x, head.y + 1) ? "1" : "0";
-    const dL = isBlocking(head.x - 1, head.y) ? "1" : "0";
-    const dR = isBlocking(head.x + 1, head.y) ? "1" : "0";
-
-    const dU2 = isBlocking(head.x, head.y - 2) ? "1" : "0";
-    const dD2 = isBlocking(head.x, head.y + 2) ? "1" : "0";
-    const dL2 = isBlocking(head.x - 2, head.y) ? "1" : "0";
-    const dR2 = isBlocking(head.x + 2, head.y) ? "1" : "0";
-
-    let heading = "N";
-    if (snake.length > 1) {
-      const neck = snake[1];
-      if (head.x > neck.x) heading = "R";
-      else if (head.x < neck.x) heading = "L";
-      else if (head.y > neck.y) heading = "D";
-      else if (head.y < neck.y) heading = "U";
+  /** States learned so far under each encoding. */
+  getTableSizes(): Record<TabularEncoding, number> {
+    const sizes = {} as Record<TabularEncoding, number>;
+    ENCODINGS.forEach(encoding => { sizes[encoding] = this.tables.get(TABULAR_ENCODERS[encoding].id)?.size ?? 0; });
+    return sizes;
+  }
+
+  /** Seeds Double Q's second table from the first, or folds it back in when switching away. */
+  private syncTables(): void {
+    if (this.config.algorithm === 'double-q') {
+      if (this.qTableB.size === 0) this.qTable.forEach((q, state) => this.qTableB.set(state, [...q]));
+      return;
     }
+    this.mergeTableB();
+  }
 
-    return `${tX}${tY}${dU}${dD}${dL}${dR}${dU2}${dD2}${dL2}${dR2}${heading}`;
+  private mergeTableB(): void {
+    if (this.qTableB.size === 0) return;
+    this.qTableB.forEach((qB, state) => {
+      const q = this.getQValues(state);
+      for (let i = 0; i < q.length; i++) q[i] = (q[i] + qB[i]) / 2;
+    });
+    this.qTableB.clear();
+  }
+
+  private applySchedules(): void {
+    this.alpha = evaluateSchedule(this.config.alpha, this.totalStepsEver);
+    this.epsilon = evaluateSchedule(this.config.epsilon, this.totalStepsEver);
+  }
+
+  getStateString(game: SnakeGame = this.game): string {
+    return this.env.encoder.encode(game);
   }
 
   getQValues(state: string): number[] {
     let q = this.qTable.get(state);
     if (!q) {
-      q = [0, 0, 0, 0];
+      q = new Array(this.actionCount).fill(0);
       this.qTable.set(state, q); 
     }
     return q;
   }
 
+  private getQValuesB(state: string): number[] {
+    let q = this.qTableB.get(state);
+    if (!q) {
+      q = new Array(this.actionCount).fill(0);
+      this.qTableB.set(state, q);
+    }
+    return q;
+  }
+
+  /** The values the policy acts on: the Q-table, or the mean of both tables under Double Q. */
+  getActionValues(state: string): number[] {
+    const q = this.getQValues(state);
+    if (this.config.algorithm !== 'double-q') return q;
+    const qB = this.getQValuesB(state);
+    return q.map((v, i) => (v + qB[i]) / 2);
+  }
+
+  /** Action values for any game's state, without adding unseen states to the tables (they read as all zeros). */
+  getQValuesFor(game: SnakeGame): number[] {
+    return this.peekActionValues(this.getStateString(game)) ?? new Array(this.actionCount).fill(0);
+  }
+
+  // getActionValues() for a state already in the table, else null
+  private peekActionValues(state: string): number[] | null {
+    const q = this.qTable.get(state);
+    if (this.config.algorithm !== 'double-q') return q ?? null;
+    const qB = this.qTableB.get(state);
+    if (!q && !qB) return null;
+    return Array.from({ length: this.actionCount }, (_, i) => ((q?.[i] ?? 0) + (qB?.[i] ?? 0)) / 2);
+  }
+
   getCurrentStateQValues(): number[] {
-    return this.getQValues(this.getStateString());
+    return this.getActionValues(this.getStateString());
+  }
+
+  /** Legal-move mask for the game's current state, or null when masking is off. */
+  private legalMask(): boolean[] | null {
+    return this.config.maskActions ? this.env.legalActions() : null;
   }
 
+  /** ε-greedy over the current game's legal actions; `state` must be its encoding. */
   chooseAction(state: string): number {
-    if (Math.random() < this.epsilon) return Math.floor(Math.random() * 4);
-    
-    const qValues = this.getQValues(state);
-    let maxIdx = 0;
-    let maxVal = qValues[0];
-    for (let i = 1; i < 4; i++) {
-      if (qValues[i] > maxVal) { maxVal = qValues[i]; maxIdx = i; }
-    }
-    return maxIdx;
+    const mask = this.legalMask();
+    if (this.rng.next() < this.epsilon) return randomAction(this.actionCount, mask, this.rng);
+    return argmax(this.getActionValues(state), mask);
   }
 
   update(): void {
     if (this.game.state.isGameOver) return;
 
     const state = this.getStateString();
-    const headBefore = { ...this.game.state.snake[0] };
-    const target = this.game.state.portalOpen ? this.game.state.portalPoint! : this.game.state.food;
-    const distBefore = Math.abs(headBefore.x - target.x) + Math.abs(headBefore.y - target.y);
-
-    const action = this.chooseAction(state);
-    const directions: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
-    
-    let reward = this.game.step(directions[action]);
-    
-    // Proximity Reward Shaping (Manhattan Distance)
-    if (!this.game.state.isGameOver) {
-      const headAfter = this.game.state.snake[0];
-      const distAfter = Math.abs(headAfter.x - target.x) + Math.abs(headAfter.y - target.y);
-      if (distAfter < distBefore) reward += 0.8; // Encouragement
-      else if (distAfter > distBefore) reward -= 0.8; // Discouragement
-    }
+    const action = this.nextAction ?? this.chooseAction(state);
+    this.nextAction = null;
+    const { observation: nextState, reward } = this.env.step(action);
 
     this.totalReward += reward;
     this.totalStepsEver++;
 
-    const nextState = this.getStateString();
-    const nextQValues = this.getQValues(nextState);
-    const maxNextQ = Math.max(...nextQValues);
+    const done = this.game.state.isGameOver;
+    // The game is now in nextState, so this masks the bootstrapped actions
+    const nextMask = done ? null : this.legalMask();
+    switch (this.config.algorithm) {
+      case 'q-learning': {
+        const maxNextQ = maxValue(this.getQValues(nextState), nextMask);
+        const currentQValues = this.getQValues(state);
+        currentQValues[action] += this.alpha * (reward + this.gamma * (done ? 0 : maxNextQ) - currentQValues[action]);
+        break;
+      }
+      case 'sarsa': {
+        const currentQValues = this.getQValues(state);
+        let nextQ = 0;
+        if (!done) {
+          this.nextAction = this.chooseAction(nextState);
+          nextQ = this.getQValues(nextState)[this.nextAction];
+        }
+        currentQValues[action] += this.alpha * (reward + this.gamma * nextQ - currentQValues[action]);
+        break;
+      }
+      case 'expected-sarsa': {
+        const currentQValues = this.getQValues(state);
+        currentQValues[action] += this.alpha * (reward + this.gamma * (done ? 0 : this.expectedValue(nextState, nextMask)) - currentQValues[action]);
+        break;
+      }
+      case 'double-q': {
+        // One table picks the next action, the other evaluates it; which is which is a coin flip
+        const [learner, evaluator] = this.rng.next() < 0.5 ? [this.qTable, this.qTableB] : [this.qTableB, this.qTable];
+        const current = learner.get(state) ?? this.initRow(learner, state);
+        let nextQ = 0;
+        if (!done) {
+          const best = argmax(learner.get(nextState) ?? this.initRow(learner, nextState), nextMask);
+          nextQ = (evaluator.get(nextState) ?? this.initRow(evaluator, nextState))[best];
+        }
+        current[action] += this.alpha * (reward + this.gamma * nextQ - current[action]);
+        break;
+      }
+      case 'watkins-q-lambda':
+      case 'sarsa-lambda':
+        this.traceUpdate(state, action, nextState, reward, done, nextMask);
+        break;
+    }
+
+    if (this.demoSteps.length > 0) {
+      if (this.config.demoMix > 0 && this.rng.next() < this.config.demoMix) this.demoUpdate(this.demoSteps[this.rng.int(this.demoSteps.length)]);
+      if (this.totalStepsEver % DEMO_AGREEMENT_EVERY === 0) this.measureDemoAgreement();
+    }
+
+    this.applySchedules();
+  }
+
+  setDemonstrations(demos: Demonstration[]): void {
+    checkDemonstrations(demos, this.env);
+    this.demos = demos;
+    this.demoKey = '';
+    this.syncDemoSteps();
+  }
+
+  /** Re-plays the demonstrations into states and actions if the encoding or action space changed, and re-measures agreement. */
+  private syncDemoSteps(): void {
+    const key = `${this.encoder.id}/${this.config.actionMode}/${this.config.maskActions}`;
+    if (key !== this.demoKey) {
+      this.demoKey = key;
+      this.demoSteps = [];
+      forEachDemoTransition(this.demos, this.env, this.config.maskActions, t => this.demoSteps.push(t));
+    }
+    // The table may have changed under it too (a config switch or a load)
+    this.measureDemoAgreement();
+  }
+
+  /**
+   * Seeds the Q-table from the demonstrations: `epochs` sweeps of demoUpdate over every step.
+   * Each sweep runs backwards, so the rewards reach the earlier steps within a few epochs.
+   */
+  pretrain(epochs: number): void {
+    if (this.demoSteps.length === 0) throw new Error('No demonstrations loaded to pretrain on');
+    for (let e = 0; e < epochs; e++) {
+      for (let i = this.demoSteps.length - 1; i >= 0; i--) this.demoUpdate(this.demoSteps[i]);
+    }
+    this.measureDemoAgreement();
+  }
+
+  /** Q-learning backup on a demonstrated step, then a step towards keeping its action DEMO_MARGIN above the others. */
+  private demoUpdate(t: DemoTransition<string>): void {
+    const tables = this.config.algorithm === 'double-q' ? [this.qTable, this.qTableB] : [this.qTable];
+    for (const table of tables) {
+      const q = table.get(t.observation) ?? this.initRow(table, t.observation);
+      const nextQ = t.done ? 0 : maxValue(table.get(t.nextObservation) ?? this.initRow(table, t.nextObservation), t.nextMask);
+      q[t.action] += this.alpha * (t.reward + this.gamma * nextQ - q[t.action]);
+      const rival = marginRival(q, t.action, maskToBits(t.mask));
+      if (rival !== -1) q[t.action] += this.alpha * (q[rival] + DEMO_MARGIN - q[t.action]);
+    }
+  }
+
+  // States the agent has never seen count as disagreements, and are not added to the table
+  private measureDemoAgreement(): void {
+    this.demoAgreement = agreementRate(this.demoSteps.length, i => {
+      const t = this.demoSteps[i];
+      const q = this.peekActionValues(t.observation);
+      return !!q && argmax(q, t.mask) === t.action;
+    });
+  }
 
-    const currentQValues = this.getQValues(state);
-    currentQValues[action] += this.alpha * (reward + this.gamma * (this.game.state.isGameOver ? 0 : maxNextQ) - currentQValues[action]);
+  private initRow(table: Map<string, number[]>, state: string): number[] {
+    const q = new Array(this.actionCount).fill(0);
+    table.set(state, q);
+    return q;
+  }
 
-    if (this.epsilon > this.epsilonMin) this.epsilon *= this.epsilonDecay;
+  /** Value of `state` under the current ε-greedy policy over its legal actions. */
+  private expectedValue(state: string, mask: boolean[] | null): number {
+    const q = this.getQValues(state);
+    const best = argmax(q, mask);
+    const legal = mask ? mask.filter(Boolean).length : q.length;
+    let value = 0;
+    for (let i = 0; i < q.length; i++) {
+      if (mask && !mask[i]) continue;
+      value += q[i] * (this.epsilon / legal + (i === best ? 1 - this.epsilon : 0));
+    }
+    return value;
+  }
+
+  /**
+   * Watkins Q(λ) / SARSA(λ) with replacing traces. Watkins bootstraps from the greedy action and
+   * cuts every trace when the action actually taken next is exploratory.
+   */
+  private traceUpdate(state: string, action: number, nextState: string, reward: number, done: boolean, nextMask: boolean[] | null): void {
+    const watkins = this.config.algorithm === 'watkins-q-lambda';
+    let nextAction = 0;
+    let target = reward;
+    let greedyNext = true;
+    if (!done) {
+      nextAction = this.chooseAction(nextState);
+      const nextQ = this.getQValues(nextState);
+      const best = argmax(nextQ, nextMask);
+      greedyNext = nextQ[nextAction] === nextQ[best];
+      target += this.gamma * (watkins ? nextQ[best] : nextQ[nextAction]);
+      this.nextAction = nextAction;
+    }
+
+    const delta = target - this.getQValues(state)[action];
+    const trace = new Array(this.actionCount).fill(0);
+    trace[action] = 1;
+    this.traces.set(state, trace);
+
+    const decay = this.gamma * this.config.lambda;
+    const cut = done || (watkins && !greedyNext);
+    this.traces.forEach((e, s) => {
+      const q = this.getQValues(s);
+      let remaining = 0;
+      for (let i = 0; i < e.length; i++) {
+        if (e[i] === 0) continue;
+        q[i] += this.alpha * delta * e[i];
+        e[i] *= decay;
+        if (e[i] < TRACE_CUTOFF) e[i] = 0;
+        remaining += e[i];
+      }
+      if (remaining === 0) this.traces.delete(s);
+    });
+    if (cut) this.traces.clear();
   }
 
   saveToStorage(): void {
-    const tableObj = Object.fromEntries(this.qTable);
-    localStorage.setItem('qs_v6_qtable', JSON.stringify(tableObj));
-    localStorage.setItem('qs_v6_epsilon', this.epsilon.toString());
-    localStorage.setItem('qs_v6_steps', this.totalStepsEver.toString());
+    ENCODINGS.forEach(encoding => {
+      const table = this.tables.get(TABULAR_ENCODERS[encoding].id);
+      if (table) this.store.setItem(qTableKey(encoding), JSON.stringify(Object.fromEntries(table)));
+      else this.store.removeItem(qTableKey(encoding));
+    });
+    if (this.qTableB.size > 0) this.store.setItem(QTABLE_B_KEY, JSON.stringify(Object.fromEntries(this.qTableB)));
+    else this.store.removeItem(QTABLE_B_KEY);
+    this.store.setItem(CONFIG_KEY, JSON.stringify(this.config));
+    this.store.setItem(STEPS_KEY, this.totalStepsEver.toString());
   }
 
   loadFromStorage(): void {
-    const savedTable = localStorage.getItem('qs_v6_qtable');
-    const savedEpsilon = localStorage.getItem('qs_v6_epsilon');
-    const savedSteps = localStorage.getItem('qs_v6_steps');
-    if (savedTable) {
+    const superseded = SUPERSEDED_QTABLE_KEYS.filter(key => this.store.getItem(key) !== null);
+    if (superseded.length > 0) {
+      console.warn(`Discarding Q-tables from older state encodings: ${superseded.join(', ')}`);
+      superseded.forEach(key => this.store.removeItem(key));
+    }
+    const savedTableB = this.store.getItem(QTABLE_B_KEY);
+    const savedConfig = this.store.getItem(CONFIG_KEY);
+    const savedSteps = this.store.getItem(STEPS_KEY);
+    ENCODINGS.forEach(encoding => {
+      const savedTable = this.store.getItem(qTableKey(encoding));
+      if (!savedTable) return;
       try {
         const obj = JSON.parse(savedTable);
-        this.qTable = new Map(Object.entries(obj) as [string, number[]][]);
-      } catch (e) { console.error("Failed to load QTable", e); }
+        this.tables.set(TABULAR_ENCODERS[encoding].id, new Map(Object.entries(obj) as [string, number[]][]));
+      } catch (e) { console.error(`Failed to load QTable for the ${encoding} encoding`, e); }
+    });
+    this.qTableB = new Map();
+    if (savedTableB) {
+      try {
+        this.qTableB = new Map(Object.entries(JSON.parse(savedTableB)) as [string, number[]][]);
+      } catch (e) { console.error("Failed to load second QTable", e); }
     }
-    if (savedEpsilon) this.epsilon = parseFloat(savedEpsilon);
+    if (savedConfig) {
+      try {
+        this.config = resolveAgentConfig(JSON.parse(savedConfig));
+      } catch (e) { console.error("Failed to load agent config", e); }
+    }
+    this.env.actionMode = this.config.actionMode;
+    // qTableB was saved for this same encoding, so switch without merging it anywhere
+    this.env.encoder = TABULAR_ENCODERS[this.config.stateEncoding];
+    this.qTable = this.tableFor(this.env.encoder.id);
     if (savedSteps) this.totalStepsEver = parseInt(savedSteps, 10);
+    this.syncTables();
+    this.nextAction = null;
+    this.traces.clear();
+    this.applySchedules();
+    this.syncDemoSteps();
+  }
+
+  exportModel(stats: QLearningStats): Uint8Array {
+    const tables = this.qTableB.size > 0 ? [this.qTable, this.qTableB] : [this.qTable];
+    const states = [...new Set(tables.flatMap(table => [...table.keys()]))];
+    const n = this.actionCount;
+    const extras = [...this.tables].filter(([id, table]) => id !== this.encoder.id && table.size > 0);
+    const extraTables = extras.map(([encoding, table]) => ({ encoding, states: [...table.keys()] }));
+    const extraSize = extraTables.reduce((sum, t) => sum + t.states.length, 0);
+    const body = new Float32Array((states.length * tables.length + extraSize) * n);
+    tables.forEach((table, t) => states.forEach((state, i) => {
+      const q = table.get(state);
+      if (q) body.set(q, (t * states.length + i) * n);
+    }));
+    let offset = states.length * tables.length * n;
+    extras.forEach(([, table]) => table.forEach(q => {
+      body.set(q, offset);
+      offset += n;
+    }));
+    return encodeModel({
+      header: {
+        formatVersion: MODEL_FORMAT_VERSION,
+        agentType: 'qlearning',
+        encoding: this.encoder.id,
+        hyperparameters: { ...this.config },
+        trainingSteps: this.totalStepsEver,
+        stats,
+        createdAt: new Date().toISOString(),
+        layout: { kind: 'qtable', states, actions: n, tables: tables.length, extraTables }
+      },
+      body
+    });
+  }
+
+  /** Replaces the Q-tables and hyperparameters with a model file's. Returns the stats saved with it. */
+  importModel(bytes: Uint8Array): QLearningStats {
+    const { header, body } = decodeModel(bytes);
+    assertCompatibleModel(header, 'qlearning', ENCODINGS.map(encoding => TABULAR_ENCODERS[encoding].id));
+    // Files from before per-encoding tables have no stateEncoding; the header's encoding settles it
+    const config = resolveAgentConfig({ ...header.hyperparameters, stateEncoding: tabularEncodingById(header.encoding) });
+    const n = actionCount(config.actionMode);
+    if (header.layout.kind !== 'qtable' || header.layout.actions !== n) throw new Error(`Q-learning model must hold a ${n}-action Q-table`);
+
+    const { states, tables = 1, extraTables = [] } = header.layout;
+    if (tables !== 1 && tables !== 2) throw new Error(`Q-learning model has ${tables} tables, expected 1 or 2`);
+    let offset = 0;
+    const readTable = (rows: string[]) => {
+      const table = new Map<string, number[]>();
+      rows.forEach(state => {
+        table.set(state, Array.from(body.subarray(offset, offset + n)));
+        offset += n;
+      });
+      return table;
+    };
+    this.tables = new Map();
+    this.qTable = readTable(states);
+    this.tables.set(header.encoding, this.qTable);
+    this.qTableB = tables === 2 ? readTable(states) : new Map();
+    extraTables.forEach(extra => {
+      const table = readTable(extra.states);
+      // Encodings this build doesn't know (e.g. a newer version) are skipped
+      if (tabularEncodingById(extra.encoding)) this.tables.set(extra.encoding, table);
+    });
+    this.totalStepsEver = header.trainingSteps;
+    // Switch action spaces and encodings first, so setConfig() keeps the tables just read
+    this.env.actionMode = config.actionMode;
+    this.env.encoder = TABULAR_ENCODERS[config.stateEncoding];
+    this.setConfig(config);
+    return header.stats as QLearningStats;
   }
 
-  reset(): void {
-    this.game = new SnakeGame(this.game.state.level); 
+  /** Starts a new episode on `level`, by default the one the last episode reached. */
+  reset(level: number = this.game.state.level): void {
+    if (this.game.replay) this.lastReplay = this.game.replay;
+    this.env.record = this.recordEpisodes;
+    this.env.reset(this.rng.nextSeed(), { level });
     this.totalReward = 0;
+    this.nextAction = null;
+    this.traces.clear();
   }
 }
@@ -0,0 +1,140 @@
+
+import { QValueAgent } from './QValueAgent';
+import { Curriculum } from './curriculum';
+import { CurriculumConfig, QLearningStats } from '../types';
+
+export const STATS_STORAGE_KEY = 'qs_v6_stats';
+const HISTORY_LIMIT = 500;
+
+export const createEmptyQLearningStats = (): QLearningStats => ({
+  episodes: 0, epsilon: 1.0, totalReward: 0, qTableSize: 0,
+  bestScoreEver: 0, avgScoreLast100: 0, currentLevel: 1, totalStepsEver: 0, levelSuccessRate: 0,
+  scoreHistory: [], epsilonHistory: []
+});
+
+/**
+ * Drives a QValueAgent (Q-table or DQN) through episodes and keeps the running QLearningStats.
+ * Its curriculum picks where each episode starts; its progress is kept with the stats.
+ * Shared by the in-browser training loop, the training worker and the headless CLI.
+ */
+export class QLearningTrainer {
+  agent: QValueAgent;
+  curriculum: Curriculum;
+  private episodes: number;
+  private bestScoreEver: number;
+  private scoreHistory: number[];
+  private epsilonHistory: number[];
+  private levelClears: number;
+  private episodeStartLevel: number;
+  private episodeCleared: boolean = false;
+
+  constructor(agent: QValueAgent, initialStats: QLearningStats = createEmptyQLearningStats()) {
+    this.agent = agent;
+    this.episodeStartLevel = agent.game.state.level;
+    this.restoreStats(initialStats);
+  }
+
+  private restoreStats(stats: QLearningStats): void {
+    this.episodes = stats.episodes;
+    this.bestScoreEver = stats.bestScoreEver;
+    this.scoreHistory = [...stats.scoreHistory];
+    this.epsilonHistory = [...stats.epsilonHistory];
+    // Clears are not persisted on their own; recover them from the saved rate
+    this.levelClears = Math.round((stats.levelSuccessRate / 100) * stats.episodes);
+    // Seeded from the agent so a seeded run picks the same levels every time
+    this.curriculum = new Curriculum(stats.curriculum, this.agent.rng.nextSeed());
+  }
+
+  /** Changes how episodes start from the next one on; a new mode starts from its first stage. */
+  setCurriculum(config: Partial<CurriculumConfig>): void {
+    this.curriculum.setConfig(config);
+  }
+
+  /** Picks up a model and stats that something else (e.g. the training worker) wrote to the store. */
+  reload(): void {
+    this.agent.loadFromStorage();
+    this.restoreStats(QLearningTrainer.loadStats(this.agent));
+  }
+
+  /** Loads previously saved stats from the agent's store, if any. */
+  static loadStats(agent: QValueAgent): QLearningStats {
+    const saved = agent.store.getItem(STATS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : createEmptyQLearningStats();
+  }
+
+  /** Runs `iterations` agent updates, resetting finished episodes. Returns the number of episodes completed. */
+  tick(iterations: number): number {
+    let batchEpisodes = 0;
+
+    for (let i = 0; i < iterations; i++) {
+      const game = this.agent.game;
+      if (game.state.isGameOver) {
+        batchEpisodes++;
+        const score = game.state.score;
+        if (score > this.bestScoreEver) this.bestScoreEver = score;
+        this.scoreHistory.push(score);
+        if (this.scoreHistory.length > HISTORY_LIMIT) this.scoreHistory.shift();
+
+        if (this.scoreHistory.length % 8 === 0) {
+          this.epsilonHistory.push(this.agent.epsilon);
+          if (this.epsilonHistory.length > HISTORY_LIMIT) this.epsilonHistory.shift();
+        }
+        const pack = game.levelPack;
+        this.curriculum.record(this.episodeStartLevel, score, this.episodeCleared, pack);
+        this.agent.reset(this.curriculum.nextLevel(pack) ?? undefined);
+        this.episodeStartLevel = this.agent.game.state.level;
+        this.episodeCleared = false;
+      }
+
+      const oldLevel = this.agent.game.state.level;
+      this.agent.update();
+      if (this.agent.game.state.level > oldLevel) {
+        this.levelClears++;
+        this.episodeCleared = true;
+      }
+    }
+
+    this.episodes += batchEpisodes;
+    return batchEpisodes;
+  }
+
+  /** Builds a fresh snapshot; cheap enough per frame, but not per step. */
+  getStats(): QLearningStats {
+    const recentScores = this.scoreHistory.slice(-100);
+    const avg = recentScores.length > 0 ? (recentScores.reduce((a, b) => a + b, 0) / recentScores.length) : 0;
+    return {
+      episodes: this.episodes,
+      epsilon: this.agent.epsilon,
+      totalReward: this.agent.totalReward,
+      qTableSize: this.agent.memorySize,
+      tableSizes: this.agent.getTableSizes?.(),
+      bestScoreEver: this.bestScoreEver,
+      avgScoreLast100: parseFloat(avg.toFixed(2)),
+      currentLevel: this.agent.game.state.level,
+      totalStepsEver: this.agent.totalStepsEver,
+      levelSuccessRate: parseFloat(((this.levelClears / Math.max(1, this.episodes)) * 100).toFixed(2)),
+      demoAgreement: this.agent.demoAgreement,
+      curriculum: this.curriculum.state,
+      scoreHistory: [...this.scoreHistory],
+      epsilonHistory: [...this.epsilonHistory]
+    };
+  }
+
+  /** Binary model file with the Q-table or network, hyperparameters and current stats. */
+  exportModel(): Uint8Array {
+    return this.agent.exportModel(this.getStats());
+  }
+
+  /** Loads a model file into the agent, adopts its stats and saves both. Throws if incompatible. */
+  importModel(bytes: Uint8Array): void {
+    // Fill in anything a model from an older build didn't record
+    this.restoreStats({ ...createEmptyQLearningStats(), ...this.agent.importModel(bytes) });
+    this.save();
+  }
+
+  /** Persists the model and the current stats through the agent's store. */
+  save(): void {
+    this.agent.saveToStorage();
+    this.agent.store.setItem(STATS_STORAGE_KEY, JSON.stringify(this.getStats()));
+  }
+}
@@ -0,0 +1,54 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { AgentConfig, Demonstration, QLearningStats, Replay, TabularEncoding } from '../types';
+import { QLearningAgent, QLearningAgentOptions, QLEARNING_STORAGE_KEYS } from './QLearningAgent';
+import { DQNAgent, DQN_STORAGE_KEYS } from './DQNAgent';
+
+export type QValueAgentKind = 'qlearning' | 'dqn';
+
+export const Q_VALUE_AGENTS: Record<QValueAgentKind, string> = {
+  qlearning: 'Q-Learning',
+  dqn: 'DQN'
+};
+
+/** What QLearningTrainer, the training worker and the app need from an agent that scores each action. */
+export interface QValueAgent {
+  readonly game: SnakeGame;
+  config: AgentConfig;
+  alpha: number;
+  epsilon: number;
+  totalReward: number;
+  totalStepsEver: number;
+  store: KeyValueStore;
+  rng: Random; // Seeded from the agent's options; other seeded parts of a run derive their seeds from it
+  recordEpisodes: boolean;
+  lastReplay: Replay | null;
+  // States in the Q-table, or transitions in a DQN's replay buffer
+  readonly memorySize: number;
+  readonly actionLabels: string[]; // Of the active action space, in Q-value order
+  readonly demoSize: number; // Demonstration steps loaded for imitation
+  demoAgreement: number | null; // Last measured % of those steps where the greedy action matches the demo's
+
+  setConfig(config: Partial<AgentConfig>): void;
+  update(): void;
+  reset(level?: number): void; // New episode on `level`, by default the one the last episode reached
+  getCurrentStateQValues(): number[];
+  getQValuesFor(game: SnakeGame): number[];
+  saveToStorage(): void;
+  loadFromStorage(): void;
+  exportModel(stats: QLearningStats): Uint8Array;
+  importModel(bytes: Uint8Array): QLearningStats;
+  setDemonstrations(demos: Demonstration[]): void; // Replaces the demonstrations learned from; [] drops them
+  pretrain(epochs: number): void; // Learns from the demonstrations alone, `epochs` passes over them
+  getTableSizes?(): Record<TabularEncoding, number>; // Tabular agents: states learned under each encoding
+}
+
+// Store keys each kind persists, for callers that copy a model between stores
+export const Q_VALUE_AGENT_STORAGE_KEYS: Record<QValueAgentKind, string[]> = {
+  qlearning: QLEARNING_STORAGE_KEYS,
+  dqn: DQN_STORAGE_KEYS
+};
+
+export const createQValueAgent = (kind: QValueAgentKind, options: QLearningAgentOptions = {}): QValueAgent =>
+  kind === 'dqn' ? new DQNAgent(options) : new QLearningAgent(options);
@@ -0,0 +1,134 @@
+import { Random } from '../game/Random';
+
+export interface ReplaySample {
+  indices: Int32Array;
+  weights: Float32Array; // Importance-sampling weights; all 1 without prioritization
+}
+
+/**
+ * Fixed-capacity ring buffer of (observation, action, reward, next observation, done,
+ * next legal actions) transitions in flat typed arrays. With `prioritized`, transitions
+ * are sampled in proportion to their last TD error (proportional PER, backed by a sum tree).
+ */
+export class ReplayBuffer {
+  readonly capacity: number;
+  readonly observationSize: number;
+  readonly prioritized: boolean;
+  observations: Float32Array;
+  nextObservations: Float32Array;
+  actions: Uint8Array;
+  rewards: Float32Array;
+  dones: Uint8Array;
+  nextMasks: Uint8Array; // Bit i set = action i is legal in the next state
+  size: number = 0;
+  private cursor: number = 0;
+  // Sum tree over priorities: node i holds the sum of its children 2i and 2i + 1, leaves start at treeLeaves
+  private tree: Float64Array | null = null;
+  private treeLeaves: number = 0;
+  private maxPriority: number = 1;
+
+  constructor(capacity: number, observationSize: number, prioritized: boolean = false) {
+    if (!Number.isInteger(capacity) || capacity < 1) throw new Error(`Replay capacity must be a positive integer, got ${capacity}`);
+    this.capacity = capacity;
+    this.observationSize = observationSize;
+    this.prioritized = prioritized;
+    this.observations = new Float32Array(capacity * observationSize);
+    this.nextObservations = new Float32Array(capacity * observationSize);
+    this.actions = new Uint8Array(capacity);
+    this.rewards = new Float32Array(capacity);
+    this.dones = new Uint8Array(capacity);
+    this.nextMasks = new Uint8Array(capacity);
+    if (prioritized) {
+      this.treeLeaves = 1;
+      while (this.treeLeaves < capacity) this.treeLeaves *= 2;
+      this.tree = new Float64Array(this.treeLeaves * 2);
+    }
+  }
+
+  add(observation: ArrayLike<number>, action: number, reward: number, nextObservation: ArrayLike<number>, done: boolean, nextMask: number = 0xff): void {
+    const i = this.cursor;
+    this.observations.set(observation, i * this.observationSize);
+    this.nextObservations.set(nextObservation, i * this.observationSize);
+    this.actions[i] = action;
+    this.rewards[i] = reward;
+    this.dones[i] = done ? 1 : 0;
+    this.nextMasks[i] = nextMask;
+    // New transitions get the highest priority seen, so each is replayed at least once soon
+    if (this.tree) this.setPriority(i, this.maxPriority);
+    this.cursor = (i + 1) % this.capacity;
+    if (this.size < this.capacity) this.size++;
+  }
+
+  observation(index: number): Float32Array {
+    return this.observations.subarray(index * this.observationSize, (index + 1) * this.observationSize);
+  }
+
+  nextObservation(index: number): Float32Array {
+    return this.nextObservations.subarray(index * this.observationSize, (index + 1) * this.observationSize);
+  }
+
+  /** Draws `batchSize` transitions. `beta` sets how strongly prioritized sampling is corrected for. */
+  sample(batchSize: number, rng: Random, beta: number = 0.4): ReplaySample {
+    if (this.size === 0) throw new Error('Cannot sample from an empty replay buffer');
+    const indices = new Int32Array(batchSize);
+    const weights = new Float32Array(batchSize).fill(1);
+    const tree = this.tree;
+    if (!tree) {
+      for (let j = 0; j < batchSize; j++) indices[j] = rng.int(this.size);
+      return { indices, weights };
+    }
+
+    // Stratified: one draw from each of batchSize equal slices of the total priority
+    const total = tree[1];
+    const segment = total / batchSize;
+    let maxWeight = 0;
+    for (let j = 0; j < batchSize; j++) {
+      const index = this.find((j + rng.next()) * segment);
+      indices[j] = index;
+      const p = tree[this.treeLeaves + index] / total;
+      weights[j] = Math.pow(this.size * p, -beta);
+      if (weights[j] > maxWeight) maxWeight = weights[j];
+    }
+    for (let j = 0; j < batchSize; j++) weights[j] /= maxWeight;
+    return { indices, weights };
+  }
+
+  /** Sets sampled transitions' priorities to |tdError|^alpha. No-op without prioritization. */
+  updatePriorities(indices: Int32Array, tdErrors: ArrayLike<number>, alpha: number): void {
+    if (!this.tree) return;
+    for (let j = 0; j < indices.length; j++) {
+      const priority = Math.pow(Math.abs(tdErrors[j]) + 1e-5, alpha);
+      if (priority > this.maxPriority) this.maxPriority = priority;
+      this.setPriority(indices[j], priority);
+    }
+  }
+
+  clear(): void {
+    this.size = 0;
+    this.cursor = 0;
+    this.maxPriority = 1;
+    this.tree?.fill(0);
+  }
+
+  private setPriority(index: number, priority: number): void {
+    const tree = this.tree!;
+    let node = this.treeLeaves + index;
+    const change = priority - tree[node];
+    for (; node >= 1; node >>= 1) tree[node] += change;
+  }
+
+  // Leaf whose cumulative priority range contains `value`
+  private find(value: number): number {
+    const tree = this.tree!;
+    let node = 1;
+    while (node < this.treeLeaves) {
+      const left = node * 2;
+      if (value < tree[left] || tree[left + 1] === 0) node = left;
+      else {
+        value -= tree[left];
+        node = left + 1;
+      }
+    }
+    return Math.min(node - this.treeLeaves, this.size - 1);
+  }
+}
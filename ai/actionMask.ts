@@ -0,0 +1,36 @@
+import { Random } from '../game/Random';
+
+// Helpers for acting on Environment.legalActions(); a null mask means every action is allowed
+
+/** Index of the highest value among allowed actions (first wins ties). */
+export const argmax = (values: ArrayLike<number>, mask: boolean[] | null = null): number => {
+  let best = -1;
+  for (let i = 0; i < values.length; i++) {
+    if (mask && !mask[i]) continue;
+    if (best === -1 || values[i] > values[best]) best = i;
+  }
+  return best === -1 ? 0 : best;
+};
+
+export const maxValue = (values: ArrayLike<number>, mask: boolean[] | null = null): number => values[argmax(values, mask)];
+
+/** Uniformly random allowed action. */
+export const randomAction = (n: number, mask: boolean[] | null, rng: Random): number => {
+  if (!mask) return rng.int(n);
+  let legal = 0;
+  for (let i = 0; i < n; i++) if (mask[i]) legal++;
+  let k = rng.int(legal);
+  for (let i = 0; i < n; i++) if (mask[i] && k-- === 0) return i;
+  return 0;
+};
+
+/** Packs a mask into bits (bit i = action i allowed), e.g. to keep it in a replay buffer. */
+export const maskToBits = (mask: boolean[] | null): number => {
+  if (!mask) return 0xff;
+  let bits = 0;
+  for (let i = 0; i < mask.length; i++) if (mask[i]) bits |= 1 << i;
+  return bits;
+};
+
+/** Inverse of maskToBits for an action space of `n`. */
+export const bitsToMask = (bits: number, n: number): boolean[] => Array.from({ length: n }, (_, i) => (bits & (1 << i)) !== 0);
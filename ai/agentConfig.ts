@@ -0,0 +1,64 @@
+import { ActionMode, AgentConfig, Schedule, TabularAlgorithm, TabularEncoding } from '../types';
+import { validateSchedule } from './schedules';
+
+export const TABULAR_ALGORITHMS: Record<TabularAlgorithm, string> = {
+  'q-learning': 'Q-learning',
+  'sarsa': 'SARSA',
+  'expected-sarsa': 'Expected SARSA',
+  'double-q': 'Double Q',
+  'watkins-q-lambda': 'Watkins Q(λ)',
+  'sarsa-lambda': 'SARSA(λ)'
+};
+
+export const TABULAR_ENCODINGS: Record<TabularEncoding, string> = {
+  basic: 'Basic',
+  items: 'Items & portal',
+  space: 'Free space',
+  tail: 'Tail',
+  full: 'All features'
+};
+
+export const usesTraces = (algorithm: TabularAlgorithm): boolean => algorithm === 'watkins-q-lambda' || algorithm === 'sarsa-lambda';
+
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  algorithm: 'q-learning',
+  gamma: 0.95,
+  lambda: 0.9,
+  actionMode: 'absolute',
+  maskActions: true,
+  stateEncoding: 'basic',
+  demoMix: 0,
+  alpha: { type: 'constant', value: 0.25 },
+  // Slow decay for better long-term exploration
+  epsilon: { type: 'exponential', start: 1, end: 0.01, decay: 0.999997 }
+};
+
+/** A bare number stands for a constant schedule, so older model files still load. */
+const toSchedule = (value: Schedule | number | undefined, fallback: Schedule): Schedule => {
+  if (value === undefined) return { ...fallback };
+  return typeof value === 'number' ? { type: 'constant', value } : { ...value };
+};
+
+/** Fills in defaults and checks the values the agent can't learn with. */
+export const resolveAgentConfig = (config: Partial<Record<keyof AgentConfig, unknown>> = {}): AgentConfig => {
+  const resolved: AgentConfig = {
+    algorithm: (config.algorithm as TabularAlgorithm | undefined) ?? DEFAULT_AGENT_CONFIG.algorithm,
+    gamma: typeof config.gamma === 'number' ? config.gamma : DEFAULT_AGENT_CONFIG.gamma,
+    lambda: typeof config.lambda === 'number' ? config.lambda : DEFAULT_AGENT_CONFIG.lambda,
+    actionMode: (config.actionMode as ActionMode | undefined) ?? DEFAULT_AGENT_CONFIG.actionMode,
+    maskActions: typeof config.maskActions === 'boolean' ? config.maskActions : DEFAULT_AGENT_CONFIG.maskActions,
+    stateEncoding: (config.stateEncoding as TabularEncoding | undefined) ?? DEFAULT_AGENT_CONFIG.stateEncoding,
+    demoMix: typeof config.demoMix === 'number' ? config.demoMix : DEFAULT_AGENT_CONFIG.demoMix,
+    alpha: toSchedule(config.alpha as Schedule | number | undefined, DEFAULT_AGENT_CONFIG.alpha),
+    epsilon: toSchedule(config.epsilon as Schedule | number | undefined, DEFAULT_AGENT_CONFIG.epsilon)
+  };
+  if (!(resolved.algorithm in TABULAR_ALGORITHMS)) throw new Error(`Unknown algorithm "${resolved.algorithm}"`);
+  if (!(resolved.gamma >= 0 && resolved.gamma <= 1)) throw new Error(`gamma must be in [0, 1], got ${resolved.gamma}`);
+  if (!(resolved.lambda >= 0 && resolved.lambda <= 1)) throw new Error(`lambda must be in [0, 1], got ${resolved.lambda}`);
+  if (resolved.actionMode !== 'absolute' && resolved.actionMode !== 'relative') throw new Error(`Unknown action mode "${resolved.actionMode}"`);
+  if (!(resolved.stateEncoding in TABULAR_ENCODINGS)) throw new Error(`Unknown state encoding "${resolved.stateEncoding}"`);
+  if (!(resolved.demoMix >= 0 && resolved.demoMix <= 1)) throw new Error(`demoMix must be in [0, 1], got ${resolved.demoMix}`);
+  validateSchedule(resolved.alpha, 'alpha');
+  validateSchedule(resolved.epsilon, 'epsilon');
+  return resolved;
+};
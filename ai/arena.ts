@@ -0,0 +1,72 @@
+import { ArenaGame, ArenaGameOptions } from '../game/ArenaGame';
+import { RewardFunction, DEFAULT_REWARD_FUNCTION } from '../game/rewards';
+import { Environment } from '../env/Environment';
+import { TABULAR_ENCODER } from '../env/encoders';
+import { EvaluationPolicy } from './evaluation';
+
+// Each arena snake is played by a fixed policy, the same kind evaluation and tournaments use, so
+// any planner, frozen Q-value agent or genetic brain can take a seat
+
+export interface ArenaMatchOptions extends ArenaGameOptions {
+  rewardFunction?: RewardFunction; // Scores each snake's StepResults; the stock scheme by default
+}
+
+/** One arena game with a controller per snake, stepped together. */
+export class ArenaMatch {
+  readonly game: ArenaGame;
+  readonly names: string[];
+  readonly totalRewards: number[];
+  readonly lastRewards: number[];
+  private controllers: EvaluationPolicy[];
+  private envs: Environment<string>[];
+  private rewardFunction: RewardFunction;
+
+  constructor(controllers: EvaluationPolicy[], options: ArenaMatchOptions = {}) {
+    this.game = new ArenaGame(controllers.length, options);
+    this.controllers = controllers;
+    this.names = controllers.map(c => c.name);
+    this.rewardFunction = options.rewardFunction || DEFAULT_REWARD_FUNCTION;
+    // Each policy sees the arena through its own environment, whose game is swapped for the snake's view every step
+    this.envs = controllers.map(c => new Environment({
+      encoder: TABULAR_ENCODER,
+      actionMode: c.actionMode,
+      levelPack: this.game.levelPack,
+      gameConfig: this.game.config
+    }));
+    this.totalRewards = controllers.map(() => 0);
+    this.lastRewards = controllers.map(() => 0);
+  }
+
+  get isOver(): boolean {
+    return this.game.state.isOver;
+  }
+
+  /** Lets every live snake's controller pick a move, then moves them all at once. */
+  step(): void {
+    if (this.isOver) return;
+    const snakes = this.game.state.snakes;
+    // Every controller decides on the board as it was before anyone moved
+    const directions = this.controllers.map((controller, i) => {
+      if (!snakes[i].alive) return 'UP';
+      const env = this.envs[i];
+      env.game = this.game.viewFor(i);
+      return env.toDirection(controller.act(env));
+    });
+    this.game.step(directions).forEach((result, i) => {
+      if (result.alreadyOver) return;
+      this.lastRewards[i] = this.rewardFunction(result);
+      this.totalRewards[i] += this.lastRewards[i];
+    });
+  }
+
+  /**
+   * Index of the snake with the highest score, or null while the match runs or when the top score
+   * is shared. A snake that outlived the others doesn't win unless it also outscored them.
+   */
+  winner(): number | null {
+    if (!this.isOver) return null;
+    const scores = this.game.state.snakes.map(s => s.score);
+    const best = Math.max(...scores);
+    return scores.filter(s => s === best).length === 1 ? scores.indexOf(best) : null;
+  }
+}
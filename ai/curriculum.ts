@@ -0,0 +1,169 @@
+import { Random } from '../game/Random';
+import { CurriculumConfig, CurriculumMode, CurriculumState, LevelPack } from '../types';
+
+export const CURRICULUM_MODES: Record<CurriculumMode, string> = {
+  off: 'Off',
+  sequential: 'Sequential',
+  mixed: 'Mixed replay',
+  procedural: 'Procedural'
+};
+
+// Procedural mode's stages are bands of this many procedural level numbers; walls get denser with the number
+const PROCEDURAL_BAND = 100;
+const PROCEDURAL_BANDS = 10;
+
+export const DEFAULT_CURRICULUM_CONFIG: CurriculumConfig = {
+  mode: 'off',
+  promoteSuccessRate: 50,
+  promoteAvgScore: 10,
+  window: 100,
+  replayShare: 0.3
+};
+
+/** Fills in defaults and checks the values a curriculum can't run with. */
+export const resolveCurriculumConfig = (config: Partial<Record<keyof CurriculumConfig, unknown>> = {}): CurriculumConfig => {
+  const resolved: CurriculumConfig = {
+    mode: (config.mode as CurriculumMode | undefined) ?? DEFAULT_CURRICULUM_CONFIG.mode,
+    promoteSuccessRate: typeof config.promoteSuccessRate === 'number' ? config.promoteSuccessRate : DEFAULT_CURRICULUM_CONFIG.promoteSuccessRate,
+    promoteAvgScore: typeof config.promoteAvgScore === 'number' ? config.promoteAvgScore : DEFAULT_CURRICULUM_CONFIG.promoteAvgScore,
+    window: typeof config.window === 'number' ? config.window : DEFAULT_CURRICULUM_CONFIG.window,
+    replayShare: typeof config.replayShare === 'number' ? config.replayShare : DEFAULT_CURRICULUM_CONFIG.replayShare
+  };
+  if (!(resolved.mode in CURRICULUM_MODES)) throw new Error(`Unknown curriculum mode "${resolved.mode}"`);
+  if (!(resolved.promoteSuccessRate >= 0 && resolved.promoteSuccessRate <= 100)) {
+    throw new Error(`promoteSuccessRate must be in [0, 100], got ${resolved.promoteSuccessRate}`);
+  }
+  if (!(resolved.promoteAvgScore >= 0)) throw new Error(`promoteAvgScore must be non-negative, got ${resolved.promoteAvgScore}`);
+  if (!Number.isInteger(resolved.window) || resolved.window < 1) throw new Error(`window must be a positive integer, got ${resolved.window}`);
+  if (!(resolved.replayShare >= 0 && resolved.replayShare <= 1)) throw new Error(`replayShare must be in [0, 1], got ${resolved.replayShare}`);
+  return resolved;
+};
+
+/**
+ * Number of stages `mode` has on `pack`. Sequential and mixed have one per hand-made level, plus a
+ * last stage of random procedural levels if the pack has them; procedural mode has PROCEDURAL_BANDS.
+ */
+export const stageCount = (mode: CurriculumMode, pack: LevelPack): number => {
+  if (mode === 'off') return 0;
+  if (mode === 'procedural') return pack.procedural ? PROCEDURAL_BANDS : 0;
+  return pack.levels.length + (pack.procedural ? 1 : 0);
+};
+
+/** What a stage plays, e.g. "L2 · Maze" or "Procedural L104–203". */
+export const describeStage = (mode: CurriculumMode, stage: number, pack: LevelPack): string => {
+  if (mode === 'off') return 'Off';
+  if (mode !== 'procedural' && stage <= pack.levels.length) return `L${stage} · ${pack.levels[stage - 1].name}`;
+  const [first, last] = proceduralRange(mode, stage, pack);
+  return `Procedural L${first}–${last}`;
+};
+
+// First and last level number a procedural stage draws from
+const proceduralRange = (mode: CurriculumMode, stage: number, pack: LevelPack): [number, number] => {
+  const start = pack.levels.length + 1;
+  if (mode === 'procedural') return [start + (stage - 1) * PROCEDURAL_BAND, start + stage * PROCEDURAL_BAND - 1];
+  return [start, start + PROCEDURAL_BANDS * PROCEDURAL_BAND - 1];
+};
+
+/**
+ * Picks each training episode's starting level from how the agent does on its current stage. An
+ * episode started on the stage counts towards promotion; once the last `window` of them clear a level
+ * and score well enough often enough, the agent moves on and the window starts over.
+ * Modes:
+ * - `off`: no say; each episode carries on from the level the last one reached.
+ * - `sequential`: every episode starts on the stage's level.
+ * - `mixed`: like sequential, but `replayShare` of the episodes replay a random earlier stage.
+ * - `procedural`: every episode gets a random procedural level (a fresh layout) from the stage's band.
+ */
+export class Curriculum {
+  config: CurriculumConfig;
+  stage: number;
+  private stageEpisodes: number;
+  private recentScores: number[];
+  private recentClears: boolean[];
+  private rng: Random;
+
+  constructor(state?: CurriculumState, seed?: number) {
+    this.rng = new Random(seed);
+    this.config = resolveCurriculumConfig(state?.config);
+    this.stage = state?.stage ?? 1;
+    this.stageEpisodes = state?.stageEpisodes ?? 0;
+    this.recentScores = [...(state?.recentScores ?? [])];
+    this.recentClears = [...(state?.recentClears ?? [])];
+  }
+
+  /** Switches config; a different mode starts over from the first stage. */
+  setConfig(config: Partial<CurriculumConfig>): void {
+    const resolved = resolveCurriculumConfig(config);
+    if (resolved.mode !== this.config.mode) {
+      this.stage = 1;
+      this.restartStage();
+    }
+    this.config = resolved;
+  }
+
+  get state(): CurriculumState {
+    return {
+      config: { ...this.config },
+      stage: this.stage,
+      stageEpisodes: this.stageEpisodes,
+      recentScores: [...this.recentScores],
+      recentClears: [...this.recentClears]
+    };
+  }
+
+  /** Level the next episode should start on, or null to leave it to the agent. */
+  nextLevel(pack: LevelPack): number | null {
+    const count = stageCount(this.config.mode, pack);
+    if (count === 0) return null;
+    // A smaller pack than the one the progress was made on
+    if (this.stage > count) this.stage = count;
+    let stage = this.stage;
+    if (this.config.mode === 'mixed' && stage > 1 && this.rng.next() < this.config.replayShare) stage = 1 + this.rng.int(stage - 1);
+    if (this.config.mode !== 'procedural' && stage <= pack.levels.length) return stage;
+    const [first, last] = proceduralRange(this.config.mode, stage, pack);
+    return first + this.rng.int(last - first + 1);
+  }
+
+  /** Counts a finished episode that started on `startLevel`, and promotes if the thresholds are met. */
+  record(startLevel: number, score: number, cleared: boolean, pack: LevelPack): void {
+    const count = stageCount(this.config.mode, pack);
+    if (count === 0 || !this.isOnStage(startLevel, pack)) return;
+    this.stageEpisodes++;
+    this.recentScores.push(score);
+    this.recentClears.push(cleared);
+    if (this.recentScores.length > this.config.window) {
+      this.recentScores.shift();
+      this.recentClears.shift();
+    }
+    const ready = this.recentScores.length >= this.config.window
+      && this.successRate >= this.config.promoteSuccessRate
+      && this.avgScore >= this.config.promoteAvgScore;
+    if (ready && this.stage < count) {
+      this.stage++;
+      this.restartStage();
+    }
+  }
+
+  /** % of the stage's recent episodes that cleared a level. */
+  get successRate(): number {
+    if (this.recentClears.length === 0) return 0;
+    return parseFloat(((this.recentClears.filter(Boolean).length / this.recentClears.length) * 100).toFixed(2));
+  }
+
+  get avgScore(): number {
+    if (this.recentScores.length === 0) return 0;
+    return parseFloat((this.recentScores.reduce((a, b) => a + b, 0) / this.recentScores.length).toFixed(2));
+  }
+
+  private isOnStage(level: number, pack: LevelPack): boolean {
+    if (this.config.mode !== 'procedural' && this.stage <= pack.levels.length) return level === this.stage;
+    const [first, last] = proceduralRange(this.config.mode, this.stage, pack);
+    return level >= first && level <= last;
+  }
+
+  private restartStage(): void {
+    this.stageEpisodes = 0;
+    this.recentScores = [];
+    this.recentClears = [];
+  }
+}
@@ -0,0 +1,196 @@
+import { Random } from '../game/Random';
+import { getPackLevel } from '../game/levels';
+import { getDefaultLevelPack } from '../game/defaultLevels';
+import { resolveGameConfig } from '../game/gameConfig';
+import { Environment, ACTIONS } from '../env/Environment';
+import { RAY_VISION_ENCODER, TABULAR_ENCODER } from '../env/encoders';
+import { argmax } from './actionMask';
+import { QValueAgent } from './QValueAgent';
+import { QLearningAgent } from './QLearningAgent';
+import { DQNAgent, DQNSettings, DQN_ENCODERS } from './DQNAgent';
+import { GeneticAgent } from './GeneticAgent';
+import { NeuralNetwork } from './NeuralNetwork';
+import { decodeModel } from './modelFile';
+import { MemoryStore } from '../storage/KeyValueStore';
+import { PLANNERS, PlannerKind, createPlanner } from './planners';
+import { ActionMode, EvaluationOutcome, EvaluationReport, GameConfig, LevelEvaluation, LevelPack, Replay } from '../types';
+
+// Evaluation plays a fixed seed set on each level with learning out of the picture, so two
+// runs (or two agents) given the same seed face exactly the same episodes
+
+/** A fixed policy to evaluate: picks an action for the environment's current state without learning from it. */
+export interface EvaluationPolicy {
+  name: string;
+  actionMode: ActionMode;
+  act(env: Environment<string>): number;
+}
+
+/** Greedy play of a Q-value agent: the best-valued action, among the legal ones if it masks. */
+export const valueAgentPolicy = (agent: QValueAgent, name: string): EvaluationPolicy => ({
+  name,
+  actionMode: agent.config.actionMode,
+  act: env => argmax(agent.getQValuesFor(env.game), agent.config.maskActions ? env.legalActions() : null)
+});
+
+export const plannerPolicy = (kind: PlannerKind): EvaluationPolicy => {
+  const planner = createPlanner(kind);
+  return { name: PLANNERS[kind], actionMode: 'absolute', act: env => ACTIONS.indexOf(planner.plan(env.game).direction) };
+};
+
+/** The genetic agent's play with one brain: its best output on the ray-vision observation. */
+export const geneticPolicy = (brain: NeuralNetwork, name: string): EvaluationPolicy => ({
+  name,
+  actionMode: 'absolute',
+  act: env => GeneticAgent.chooseAction(brain, RAY_VISION_ENCODER.encode(env.game))
+});
+
+/** Greedy play of the model in a model file of any agent type, e.g. a saved checkpoint. */
+export const modelPolicy = (bytes: Uint8Array, name: string): EvaluationPolicy => {
+  const { header } = decodeModel(bytes);
+  if (header.agentType === 'genetic') {
+    const genetic = new GeneticAgent();
+    genetic.importModel(bytes);
+    return geneticPolicy(genetic.bestBrain!, name);
+  }
+  // A fresh DQN only accepts models on its own observation, so give it the file's
+  const observation = (Object.keys(DQN_ENCODERS) as DQNSettings['observation'][]).find(o => DQN_ENCODERS[o].id === header.encoding);
+  const agent: QValueAgent = header.agentType === 'dqn'
+    ? new DQNAgent({ store: new MemoryStore(), settings: observation ? { observation } : {} })
+    : new QLearningAgent({ store: new MemoryStore() });
+  agent.importModel(bytes);
+  return valueAgentPolicy(agent, name);
+};
+
+export interface EvaluationOptions {
+  levels: number[];
+  episodes: number; // Per level, each on its own seed
+  seed?: number; // Default 1
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+}
+
+export interface EvaluationEpisode {
+  score: number;
+  steps: number;
+  food: number;
+  outcome: EvaluationOutcome;
+  replay: Replay | null; // Only when asked to record
+}
+
+const OUTCOMES: EvaluationOutcome[] = ['PORTAL', 'WALL', 'BODY', 'TIMEOUT'];
+
+/** The seeds every level is played on. */
+export const evaluationSeeds = (count: number, seed: number): number[] => {
+  const rng = new Random(seed);
+  return Array.from({ length: count }, () => rng.nextSeed());
+};
+
+/** Parses a level list like "1-4,7" into level numbers, in order and without repeats. */
+export const parseLevelList = (text: string): number[] => {
+  const levels = new Set<number>();
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) throw new Error(`"${part}" is not a level or a range like 1-4`);
+    const first = parseInt(match[1], 10);
+    const last = match[2] ? parseInt(match[2], 10) : first;
+    if (first < 1 || last < first) throw new Error(`"${part}" is not a valid level range`);
+    for (let level = first; level <= last; level++) levels.add(level);
+  }
+  if (levels.size === 0) throw new Error('No levels to evaluate');
+  return [...levels];
+};
+
+/** Plays one episode on `level` until the snake reaches the portal or dies (timeouts included). */
+export const playEvaluationEpisode = (
+  policy: EvaluationPolicy, level: number, seed: number, options: Pick<EvaluationOptions, 'levelPack' | 'gameConfig'>, record: boolean = false
+): EvaluationEpisode => {
+  const env = new Environment({ encoder: TABULAR_ENCODER, actionMode: policy.actionMode, levelPack: options.levelPack, gameConfig: options.gameConfig, record });
+  env.reset(seed, { level });
+  let food = 0;
+  for (;;) {
+    const { result, score, steps } = env.step(policy.act(env)).info;
+    if (result.ateFood) food++;
+    // Entering the portal loads the next level, so this is the last step that counts
+    if (result.enteredPortal || result.died) {
+      return { score, steps, food, outcome: result.enteredPortal ? 'PORTAL' : result.died!, replay: env.game.replay };
+    }
+  }
+};
+
+/** Score, outcome and pace statistics over a set of episodes. */
+export const summarizeEpisodes = (level: number | null, name: string, results: EvaluationEpisode[]): LevelEvaluation => {
+  const scores = results.map(r => r.score).sort((a, b) => a - b);
+  const n = scores.length;
+  const mean = n > 0 ? scores.reduce((a, b) => a + b, 0) / n : 0;
+  const median = n === 0 ? 0 : n % 2 === 1 ? scores[(n - 1) / 2] : (scores[n / 2 - 1] + scores[n / 2]) / 2;
+  const variance = n > 0 ? scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / n : 0;
+  const outcomes = Object.fromEntries(OUTCOMES.map(o => [o, 0])) as Record<EvaluationOutcome, number>;
+  results.forEach(r => outcomes[r.outcome]++);
+  const food = results.reduce((sum, r) => sum + r.food, 0);
+  const steps = results.reduce((sum, r) => sum + r.steps, 0);
+  return {
+    level,
+    name,
+    episodes: n,
+    meanScore: parseFloat(mean.toFixed(2)),
+    medianScore: median,
+    stdScore: parseFloat(Math.sqrt(variance).toFixed(2)),
+    portalRate: parseFloat(((outcomes.PORTAL / Math.max(1, n)) * 100).toFixed(2)),
+    outcomes,
+    stepsPerFood: food > 0 ? parseFloat((steps / food).toFixed(2)) : null
+  };
+};
+
+/**
+ * Plays `policy` for `options.episodes` episodes on each level, every level on the same seeds, and
+ * summarizes each level and all of them together. `onLevel` runs after each level; awaiting it lets a
+ * UI repaint between levels.
+ */
+export const evaluatePolicy = async (
+  policy: EvaluationPolicy, options: EvaluationOptions, onLevel?: (done: number, total: number) => void | Promise<void>
+): Promise<EvaluationReport> => {
+  if (!Number.isInteger(options.episodes) || options.episodes < 1) throw new Error(`episodes must be a positive integer, got ${options.episodes}`);
+  if (options.levels.length === 0) throw new Error('No levels to evaluate');
+  const seed = options.seed ?? 1;
+  const seeds = evaluationSeeds(options.episodes, seed);
+  const config = resolveGameConfig(options.gameConfig);
+  const pack = options.levelPack ?? getDefaultLevelPack(config.width, config.height);
+
+  const levels: LevelEvaluation[] = [];
+  const all: EvaluationEpisode[] = [];
+  for (const level of options.levels) {
+    const results = seeds.map(s => playEvaluationEpisode(policy, level, s, options));
+    all.push(...results);
+    levels.push(summarizeEpisodes(level, getPackLevel(pack, level, config.startLength).name, results));
+    await onLevel?.(levels.length, options.levels.length);
+  }
+
+  return {
+    agent: policy.name,
+    createdAt: new Date().toISOString(),
+    seed,
+    episodesPerLevel: options.episodes,
+    levels,
+    overall: summarizeEpisodes(null, 'All levels', all)
+  };
+};
+
+/** The report as a fixed-width text table, one row per level and a summary row. */
+export const formatEvaluationTable = (report: EvaluationReport): string => {
+  const header = ['level', 'name', 'mean', 'median', 'std', 'portal%', 'wall', 'body', 'timeout', 'steps/food'];
+  const rows = [...report.levels, report.overall].map(r => [
+    r.level === null ? 'all' : String(r.level),
+    r.name,
+    r.meanScore.toFixed(2),
+    String(r.medianScore),
+    r.stdScore.toFixed(2),
+    r.portalRate.toFixed(1),
+    String(r.outcomes.WALL),
+    String(r.outcomes.BODY),
+    String(r.outcomes.TIMEOUT),
+    r.stepsPerFood === null ? '—' : r.stepsPerFood.toFixed(1)
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 1 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+  return [line(header), ...rows.map(line)].join('\n');
+};
@@ -0,0 +1,135 @@
+import { Environment } from '../env/Environment';
+import { decodeAction, parseReplay } from '../game/Replay';
+import { ReplayPlayer } from '../game/ReplayPlayer';
+import { Demonstration, Direction } from '../types';
+import { PLANNERS } from './planners';
+
+// Helpers shared by the Q-value agents for learning from demonstrations (DQfD-style:
+// TD updates on the demonstrated transitions plus a large-margin term on the demonstrated action)
+
+/** How far above every other action a demonstrated action's value is pushed. */
+export const DEMO_MARGIN = 1;
+// Agents re-measure their agreement with the demonstrations this often, on at most DEMO_AGREEMENT_SAMPLE steps
+export const DEMO_AGREEMENT_EVERY = 10000;
+const DEMO_AGREEMENT_SAMPLE = 1000;
+
+/** One demonstrated step, as the agent would have seen and taken it. */
+export interface DemoTransition<O> {
+  observation: O;
+  action: number; // In the agent's action space
+  reward: number;
+  nextObservation: O;
+  done: boolean; // The snake died; timeouts are not terminal, as in Environment.step()
+  mask: boolean[] | null; // Legal actions at `observation`, when the agent masks
+  nextMask: boolean[] | null; // Legal actions at `nextObservation`; null once the game is over
+}
+
+/** The action that moves the snake in `direction` right now, or -1 if the action space has none (e.g. a reversal under turns). */
+const actionFor = <O>(env: Environment<O>, direction: Direction): number => {
+  for (let a = 0; a < env.actionSpace.n; a++) if (env.toDirection(a) === direction) return a;
+  return -1;
+};
+
+/**
+ * Throws unless every demonstration was recorded on `like`'s level pack and still plays out as
+ * recorded, so no agent learns from an episode on walls or placements it was never played on.
+ */
+export const checkDemonstrations = <O>(demos: Demonstration[], like: Environment<O>): void => {
+  demos.forEach(({ replay }, i) => {
+    let diverged: boolean;
+    try {
+      const player = new ReplayPlayer(replay, like.levelPack);
+      player.seek(player.length);
+      diverged = player.diverged;
+    } catch (e) {
+      throw new Error(`Demonstration ${i + 1}: ${e instanceof Error ? e.message : e}`);
+    }
+    if (diverged) throw new Error(`Demonstration ${i + 1} no longer plays out as recorded`);
+  });
+};
+
+/**
+ * Re-plays each demonstration through an Environment with `like`'s encoder, action space and
+ * reward function, and hands every step to `visit` as a transition. Steps the action space can't
+ * express are played but not visited. Returns the number of transitions visited.
+ */
+export const forEachDemoTransition = <O>(
+  demos: Demonstration[], like: Environment<O>, maskActions: boolean, visit: (t: DemoTransition<O>) => void
+): number => {
+  let count = 0;
+  for (const { replay } of demos) {
+    // On `like`'s level pack, which checkDemonstrations() has held each replay to
+    const env = new Environment({ encoder: like.encoder, actionMode: like.actionMode, rewardFunction: like.rewardFunction, levelPack: like.levelPack, gameConfig: replay.config });
+    let observation = env.reset(replay.seed, { level: replay.level }).observation;
+    for (const char of replay.actions) {
+      if (env.game.state.isGameOver) break;
+      const direction = decodeAction(char);
+      const action = actionFor(env, direction);
+      if (action === -1) {
+        env.game.step(direction);
+        observation = env.observe();
+        continue;
+      }
+      const mask = maskActions ? env.legalActions() : null;
+      const { observation: nextObservation, reward, done } = env.step(action);
+      const nextMask = maskActions && !env.game.state.isGameOver ? env.legalActions() : null;
+      visit({ observation, action, reward, nextObservation, done, mask, nextMask });
+      observation = nextObservation;
+      count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * The allowed action (bit i of `maskBits`) that most breaks the margin: the best of
+ * Q(s, a) + DEMO_MARGIN over a ≠ `action`, if that beats Q(s, action). -1 if none does.
+ */
+export const marginRival = (values: ArrayLike<number>, action: number, maskBits: number = 0xff): number => {
+  let rival = -1;
+  for (let a = 0; a < values.length; a++) {
+    if (a === action || !(maskBits & (1 << a))) continue;
+    if (rival === -1 || values[a] > values[rival]) rival = a;
+  }
+  return rival !== -1 && values[rival] + DEMO_MARGIN > values[action] ? rival : -1;
+};
+
+/**
+ * Percentage of `count` demonstration steps on which `agrees(i)` holds, checked on at most
+ * DEMO_AGREEMENT_SAMPLE of them spread evenly. Null when there are none.
+ */
+export const agreementRate = (count: number, agrees: (i: number) => boolean): number | null => {
+  if (count === 0) return null;
+  const stride = Math.max(1, count / DEMO_AGREEMENT_SAMPLE);
+  let checked = 0;
+  let matches = 0;
+  for (let x = 0; x < count; x += stride) {
+    checked++;
+    if (agrees(Math.floor(x))) matches++;
+  }
+  return parseFloat(((matches / checked) * 100).toFixed(1));
+};
+
+const isDemoSource = (value: unknown): value is Demonstration['source'] =>
+  value === 'human' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANNERS, value));
+
+/** Parses and validates an exported demonstrations file (a JSON array of Demonstration). */
+export const parseDemonstrations = (json: string): Demonstration[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Demonstrations file is not valid JSON');
+  }
+  if (!Array.isArray(data)) throw new Error('Demonstrations file must hold an array');
+  return data.map((item: unknown, i): Demonstration => {
+    if (typeof item !== 'object' || item === null) throw new Error(`Demonstration ${i + 1} is not an object`);
+    const demo = item as Record<string, unknown>;
+    if (!isDemoSource(demo.source)) throw new Error(`Demonstration ${i + 1} has an unknown source "${demo.source}"`);
+    try {
+      return { source: demo.source, replay: parseReplay(JSON.stringify(demo.replay)), createdAt: String(demo.createdAt ?? '') };
+    } catch (e) {
+      throw new Error(`Demonstration ${i + 1}: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+};
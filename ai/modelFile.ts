@@ -0,0 +1,107 @@
+import { GeneticStats, QLearningStats } from '../types';
+import { Activation } from './NeuralNetwork';
+
+/**
+ * Binary model files: a JSON header describing what produced the model, followed
+ * by a little-endian Float32 body (Q-values or network weights).
+ *
+ *   "CSNK" | u32 header byte length | header JSON (UTF-8, padded to 4 bytes) | f32 body
+ */
+export const MODEL_FORMAT_VERSION = 1;
+const MAGIC = 'CSNK';
+
+export type ModelAgentType = 'qlearning' | 'genetic' | 'dqn';
+
+export type ModelBodyLayout =
+  | { kind: 'qtable'; states: string[]; actions: number; tables?: number; extraTables?: ExtraQTable[] } // Row per state, `actions` values each; `tables` (default 1) stacked one after another, then extraTables
+  | { kind: 'network'; layerSizes: number[]; activations: Activation[] }; // NeuralNetwork.getWeights() order
+
+// A Q-table for another state encoding than the header's, kept so switching back resumes it
+export interface ExtraQTable {
+  encoding: string;
+  states: string[];
+}
+
+export interface ModelHeader {
+  formatVersion: number;
+  agentType: ModelAgentType;
+  encoding: string; // ObservationEncoder id the model was trained on
+  hyperparameters: Record<string, unknown>; // Agent config, e.g. AgentConfig or GeneticConfig
+  trainingSteps: number;
+  stats: QLearningStats | GeneticStats;
+  createdAt: string;
+  layout: ModelBodyLayout;
+}
+
+export interface ModelFile {
+  header: ModelHeader;
+  body: Float32Array;
+}
+
+export const expectedBodyLength = (layout: ModelBodyLayout): number => {
+  if (layout.kind === 'qtable') {
+    const extra = (layout.extraTables ?? []).reduce((sum, t) => sum + t.states.length, 0);
+    return (layout.states.length * (layout.tables ?? 1) + extra) * layout.actions;
+  }
+  let n = 0;
+  for (let l = 0; l < layout.layerSizes.length - 1; l++) n += layout.layerSizes[l + 1] * (layout.layerSizes[l] + 1);
+  return n;
+};
+
+export const encodeModel = (model: ModelFile): Uint8Array => {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(model.header));
+  const headerPadded = Math.ceil(headerBytes.length / 4) * 4;
+  const bodyOffset = 8 + headerPadded;
+  const bytes = new Uint8Array(bodyOffset + model.body.length * 4);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < 4; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, 8);
+  for (let i = headerBytes.length; i < headerPadded; i++) bytes[8 + i] = 0x20; // Pad with spaces
+  for (let i = 0; i < model.body.length; i++) view.setFloat32(bodyOffset + i * 4, model.body[i], true);
+  return bytes;
+};
+
+/** Parses and sanity-checks a model file. Throws with a readable reason if it can't be used. */
+export const decodeModel = (bytes: Uint8Array): ModelFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 8 || String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) !== MAGIC) {
+    throw new Error('Not a CoreSnake model file');
+  }
+  const headerLength = view.getUint32(4, true);
+  if (8 + headerLength > bytes.length) throw new Error('Model file is truncated (header)');
+
+  let header: ModelHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength)));
+  } catch {
+    throw new Error('Model header is not valid JSON');
+  }
+  if (typeof header.formatVersion !== 'number' || header.formatVersion > MODEL_FORMAT_VERSION) {
+    throw new Error(`Model format version ${header.formatVersion} is not supported (this build reads up to ${MODEL_FORMAT_VERSION})`);
+  }
+  if (!header.layout || (header.layout.kind !== 'qtable' && header.layout.kind !== 'network')) {
+    throw new Error('Model header has no valid body layout');
+  }
+
+  const bodyOffset = 8 + Math.ceil(headerLength / 4) * 4;
+  const expected = expectedBodyLength(header.layout);
+  const available = Math.max(0, Math.floor((bytes.length - bodyOffset) / 4));
+  if (available !== expected) throw new Error(`Model body has ${available} values, expected ${expected}`);
+
+  const body = new Float32Array(expected);
+  for (let i = 0; i < expected; i++) body[i] = view.getFloat32(bodyOffset + i * 4, true);
+  return { header, body };
+};
+
+/** Throws unless the model was produced by the given agent type and (one of the) observation encodings. */
+export const assertCompatibleModel = (header: ModelHeader, agentType: ModelAgentType, encoding: string | string[]): void => {
+  if (header.agentType !== agentType) {
+    throw new Error(`This is a ${header.agentType} model and can't be loaded into the ${agentType} agent`);
+  }
+  const accepted = typeof encoding === 'string' ? [encoding] : encoding;
+  if (!accepted.includes(header.encoding)) {
+    throw new Error(`Model was trained on state encoding "${header.encoding}" but this agent uses ${accepted.map(e => `"${e}"`).join(' or ')}`);
+  }
+};
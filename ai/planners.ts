@@ -0,0 +1,312 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { directionVector } from '../game/levels';
+import { ACTIONS } from '../env/Environment';
+import { Direction, PlannerKind, Point } from '../types';
+
+export type { PlannerKind };
+
+export const PLANNERS: Record<PlannerKind, string> = {
+  greedy: 'Greedy',
+  astar: 'A*',
+  hamiltonian: 'Hamiltonian'
+};
+
+export interface PlannerMove {
+  direction: Direction;
+  path: Point[]; // Cells the planner means to visit, starting next to the head
+  fallback: 'tail' | 'space' | 'astar' | null; // Set when the planner's own strategy had no safe answer
+}
+
+/** A non-learning policy: looks at the game and picks the next move. */
+export interface Planner {
+  plan(game: SnakeGame): PlannerMove;
+}
+
+const move = (p: Point, direction: Direction, game: SnakeGame): Point | null => {
+  const d = directionVector(direction);
+  return game.wrapPoint(p.x + d.x, p.y + d.y);
+};
+
+/** The move that takes `from` onto the neighbouring cell `to`. */
+const directionTo = (game: SnakeGame, from: Point, to: Point): Direction =>
+  ACTIONS.find(dir => {
+    const p = move(from, dir, game);
+    return !!p && p.x === to.x && p.y === to.y;
+  }) ?? 'UP';
+
+/** Min-heap of cell indices ordered by priority, for A*. */
+class CellHeap {
+  private cells: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, priority: number): void {
+    let i = this.cells.length;
+    this.cells.push(cell);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.cells[0];
+    const lastCell = this.cells.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.cells.length > 0) {
+      this.cells[0] = lastCell;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.cells.length && this.priorities[l] < this.priorities[smallest]) smallest = l;
+        if (r < this.cells.length && this.priorities[r] < this.priorities[smallest]) smallest = r;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.cells[a], this.cells[b]] = [this.cells[b], this.cells[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+/**
+ * A* from the head of `snake` (which need not be the game's own) to `goal`. A body segment
+ * stops blocking once the tail would have moved off it, assuming nothing is eaten on the way.
+ * Returns the cells after the head, or null when the goal can't be reached.
+ */
+const findPath = (game: SnakeGame, snake: Point[], goal: Point): Point[] | null => {
+  const { width, height } = game;
+  const segment = new Int32Array(width * height).fill(-1);
+  snake.forEach((p, i) => { segment[p.y * width + p.x] = i; });
+  const arrival = new Int32Array(width * height).fill(-1);
+  const parent = new Int32Array(width * height).fill(-1);
+  const head = snake[0];
+  const start = head.y * width + head.x;
+  const goalIdx = goal.y * width + goal.x;
+  arrival[start] = 0;
+  const open = new CellHeap();
+  open.push(start, game.distance(head, goal));
+
+  while (open.size > 0) {
+    const cell = open.pop();
+    if (cell === goalIdx) {
+      const path: Point[] = [];
+      for (let c = cell; c !== start; c = parent[c]) path.push({ x: c % width, y: Math.floor(c / width) });
+      return path.reverse();
+    }
+    const t = arrival[cell] + 1;
+    const p = { x: cell % width, y: Math.floor(cell / width) };
+    for (const dir of ACTIONS) {
+      const next = move(p, dir, game);
+      if (!next || game.isPointWall(next.x, next.y)) continue;
+      const idx = next.y * width + next.x;
+      if (arrival[idx] !== -1) continue;
+      // Segment i is still there on the move that would enter it until the tail has passed it
+      if (segment[idx] !== -1 && t < snake.length - segment[idx] + 1) continue;
+      arrival[idx] = t;
+      parent[idx] = cell;
+      open.push(idx, t + game.distance(next, goal));
+    }
+  }
+  return null;
+};
+
+/** Where the body ends up after following `path`, growing by one when the last cell is food. */
+const snakeAfter = (snake: Point[], path: Point[], grows: boolean): Point[] =>
+  [...path].reverse().concat(snake).slice(0, snake.length + (grows ? 1 : 0));
+
+/** Free cells reachable from `start`, with the snake frozen where it is. */
+const freeArea = (game: SnakeGame, start: Point): number => {
+  const seen = new Set<number>([start.y * game.width + start.x]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    for (const dir of ACTIONS) {
+      const p = move(queue[i], dir, game);
+      if (!p || game.isPointWall(p.x, p.y) || game.isSnakeAt(p.x, p.y)) continue;
+      const idx = p.y * game.width + p.x;
+      if (seen.has(idx)) continue;
+      seen.add(idx);
+      queue.push(p);
+    }
+  }
+  return queue.length;
+};
+
+/** Last resort: the legal move with the most room behind it. */
+const roomiestMove = (game: SnakeGame): PlannerMove => {
+  const head = game.state.snake[0];
+  let best: PlannerMove = { direction: 'UP', path: [], fallback: 'space' };
+  let bestArea = -1;
+  for (const dir of ACTIONS) {
+    if (game.isDeadlyMove(dir)) continue;
+    const p = move(head, dir, game)!;
+    const area = freeArea(game, p);
+    if (area > bestArea) {
+      bestArea = area;
+      best = { direction: dir, path: [p], fallback: 'space' };
+    }
+  }
+  return best;
+};
+
+/** Steps towards the target by Manhattan distance, never looking further than the next move. */
+const greedyPlanner = (): Planner => ({
+  plan: game => {
+    const target = game.getTarget();
+    // The route it would take if nothing moved, for drawing
+    const path: Point[] = [];
+    const seen = new Set<number>();
+    let at = game.state.snake[0];
+    let first: Direction | null = null;
+    while ((at.x !== target.x || at.y !== target.y) && path.length < game.width + game.height) {
+      let best: Direction | null = null;
+      let bestDistance = Infinity;
+      for (const dir of ACTIONS) {
+        const p = move(at, dir, game);
+        if (!p || game.isPointWall(p.x, p.y) || game.isSnakeAt(p.x, p.y) || seen.has(p.y * game.width + p.x)) continue;
+        const d = game.distance(p, target);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = dir;
+        }
+      }
+      if (!best) break;
+      first ??= best;
+      at = move(at, best, game)!;
+      seen.add(at.y * game.width + at.x);
+      path.push(at);
+    }
+    return { direction: first ?? 'UP', path, fallback: null };
+  }
+});
+
+/**
+ * A* to the food or portal, taken only if the tail is still reachable from where the snake
+ * ends up; otherwise chases its own tail, and failing that takes the roomiest move.
+ */
+const aStarPlanner = (): Planner => ({
+  plan: game => {
+    const snake = game.state.snake;
+    const head = snake[0];
+    const path = findPath(game, snake, game.getTarget());
+    if (path && path.length > 0) {
+      // Entering the portal ends the level, so there is nothing to get trapped in
+      const after = snakeAfter(snake, path, true);
+      if (game.state.portalOpen || findPath(game, after, after[after.length - 1])) {
+        return { direction: directionTo(game, head, path[0]), path, fallback: null };
+      }
+    }
+    if (snake.length > 1) {
+      const tailPath = findPath(game, snake, snake[snake.length - 1]);
+      if (tailPath && tailPath.length > 0) return { direction: directionTo(game, head, tailPath[0]), path: tailPath, fallback: 'tail' };
+    }
+    return roomiestMove(game);
+  }
+});
+
+// How far behind the tail (along the cycle) a shortcut must stay, leaving room to grow
+const SHORTCUT_MARGIN = 3;
+
+/**
+ * Cycle through every cell of the board, as each cell's position along it. Zigzags across
+ * the rows and returns up the first column, so one side must be even; null if neither is.
+ */
+const buildCycle = (width: number, height: number): Int32Array | null => {
+  if (height % 2 !== 0) {
+    if (width % 2 !== 0) return null;
+    // Build it on the transposed board and swap coordinates back
+    const transposed = buildCycle(height, width)!;
+    const order = new Int32Array(width * height);
+    for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) order[y * width + x] = transposed[x * height + y];
+    return order;
+  }
+  const order = new Int32Array(width * height);
+  let n = 0;
+  for (let x = 0; x < width; x++) order[x] = n++;
+  for (let y = 1; y < height; y++) {
+    for (let i = 1; i < width; i++) {
+      const x = y % 2 === 1 ? width - i : i;
+      order[y * width + x] = n++;
+    }
+  }
+  for (let y = height - 1; y >= 1; y--) order[y * width] = n++;
+  return order;
+};
+
+/**
+ * Follows a Hamiltonian cycle, which never traps the snake, and cuts ahead along it towards
+ * the target while the snake is short and the cut stays behind the tail. Levels with walls
+ * (or an odd-by-odd board) have no such cycle, so those fall back to A*.
+ */
+const hamiltonianPlanner = (): Planner => {
+  const fallback = aStarPlanner();
+  let cycle: Int32Array | null = null;
+  let cells: Int32Array | null = null; // Inverse of cycle: cell index at each position
+  let cycleSize = '';
+
+  return {
+    plan: game => {
+      const { width, height } = game;
+      if (game.state.walls.length > 0) return { ...fallback.plan(game), fallback: 'astar' };
+      if (cycleSize !== `${width}x${height}`) {
+        cycleSize = `${width}x${height}`;
+        cycle = buildCycle(width, height);
+        cells = cycle && new Int32Array(cycle.length);
+        cycle?.forEach((position, cell) => { cells![position] = cell; });
+      }
+      if (!cycle || !cells) return { ...fallback.plan(game), fallback: 'astar' };
+
+      const n = cycle.length;
+      const snake = game.state.snake;
+      const head = snake[0];
+      const at = cycle[head.y * width + head.x];
+      const ahead = (p: Point) => (cycle![p.y * width + p.x] - at + n) % n;
+      const toTarget = ahead(game.getTarget());
+      const toTail = snake.length > 1 ? ahead(snake[snake.length - 1]) : n;
+
+      let best: Direction | null = null;
+      let bestAhead = 0;
+      for (const dir of ACTIONS) {
+        if (game.isDeadlyMove(dir)) continue;
+        const d = ahead(move(head, dir, game)!);
+        const shortcut = snake.length < n / 2 && d <= toTarget && d < toTail - SHORTCUT_MARGIN;
+        if ((d === 1 || shortcut) && d > bestAhead) {
+          best = dir;
+          bestAhead = d;
+        }
+      }
+      // The spawn needn't lie along the cycle; until the body does, the next cell may be taken
+      if (!best) return { ...fallback.plan(game), fallback: 'astar' };
+
+      const path: Point[] = [];
+      const start = (at + bestAhead) % n;
+      for (let k = 0; k <= (toTarget - bestAhead + n) % n; k++) {
+        const cell = cells[(start + k) % n];
+        path.push({ x: cell % width, y: Math.floor(cell / width) });
+      }
+      return { direction: best, path, fallback: null };
+    }
+  };
+};
+
+export const createPlanner = (kind: PlannerKind): Planner => {
+  switch (kind) {
+    case 'greedy': return greedyPlanner();
+    case 'astar': return aStarPlanner();
+    case 'hamiltonian': return hamiltonianPlanner();
+  }
+};
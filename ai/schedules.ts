@@ -0,0 +1,58 @@
+import { Schedule, ScheduleType } from '../types';
+
+export const SCHEDULE_TYPES: ScheduleType[] = ['constant', 'linear', 'exponential', 'step', 'cosine'];
+
+/** Value of a schedule after `t` steps. */
+export const evaluateSchedule = (schedule: Schedule, t: number): number => {
+  switch (schedule.type) {
+    case 'constant':
+      return schedule.value;
+    case 'linear': {
+      const progress = Math.min(1, t / schedule.steps);
+      return schedule.start + (schedule.end - schedule.start) * progress;
+    }
+    case 'exponential':
+      return Math.max(schedule.end, schedule.start * Math.pow(schedule.decay, t));
+    case 'step':
+      return Math.max(schedule.end, schedule.start * Math.pow(schedule.factor, Math.floor(t / schedule.every)));
+    case 'cosine': {
+      const progress = Math.min(1, t / schedule.steps);
+      return schedule.end + (schedule.start - schedule.end) * (1 + Math.cos(Math.PI * progress)) / 2;
+    }
+  }
+};
+
+/** The same start and end values under another schedule type, for switching types in the UI. */
+export const convertSchedule = (schedule: Schedule, type: ScheduleType): Schedule => {
+  const start = schedule.type === 'constant' ? schedule.value : schedule.start;
+  const end = schedule.type === 'constant' ? schedule.value : schedule.end;
+  switch (type) {
+    case 'constant': return { type, value: start };
+    case 'linear': return { type, start, end, steps: 1_000_000 };
+    case 'exponential': return { type, start, end, decay: 0.999997 };
+    case 'step': return { type, start, end, factor: 0.5, every: 250_000 };
+    case 'cosine': return { type, start, end, steps: 1_000_000 };
+  }
+};
+
+export const describeSchedule = (schedule: Schedule): string => {
+  switch (schedule.type) {
+    case 'constant': return `${schedule.value}`;
+    case 'linear': return `lin ${schedule.start}→${schedule.end} / ${schedule.steps.toLocaleString()}`;
+    case 'exponential': return `exp ${schedule.start}→${schedule.end} ×${schedule.decay}`;
+    case 'step': return `step ${schedule.start}→${schedule.end} ×${schedule.factor} / ${schedule.every.toLocaleString()}`;
+    case 'cosine': return `cos ${schedule.start}→${schedule.end} / ${schedule.steps.toLocaleString()}`;
+  }
+};
+
+/** Throws naming the first parameter the schedule can't work with. */
+export const validateSchedule = (schedule: Schedule, name: string): void => {
+  const fail = (message: string) => { throw new Error(`${name} schedule: ${message}`); };
+  if (!SCHEDULE_TYPES.includes(schedule.type)) fail(`unknown type "${schedule.type}"`);
+  Object.entries(schedule).forEach(([key, value]) => {
+    if (key !== 'type' && (typeof value !== 'number' || !Number.isFinite(value))) fail(`${key} must be a number`);
+  });
+  if ((schedule.type === 'linear' || schedule.type === 'cosine') && schedule.steps <= 0) fail('steps must be positive');
+  if (schedule.type === 'exponential' && (schedule.decay <= 0 || schedule.decay > 1)) fail('decay must be in (0, 1]');
+  if (schedule.type === 'step' && schedule.every <= 0) fail('every must be positive');
+};
@@ -0,0 +1,87 @@
+import { EvaluationEpisode, EvaluationPolicy, evaluationSeeds, playEvaluationEpisode, summarizeEpisodes } from './evaluation';
+import { GameConfig, Leaderboard, LevelPack, TournamentSetup, TournamentStanding } from '../types';
+
+// Every entrant plays the same episodes: each level in the setup on each seed of evaluationSeeds(),
+// so a tournament's episodes are the ones `npm run evaluate` plays with the same seed
+
+export interface TournamentEntrant {
+  id: string; // Stable across tournaments, so a re-run replaces the entrant's standing
+  policy: EvaluationPolicy;
+}
+
+export interface TournamentOptions {
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+}
+
+const Z_95 = 1.96;
+
+/** Normal-approximation 95% interval for the mean of `scores`. */
+export const confidenceInterval = (scores: number[]): [number, number] => {
+  const n = scores.length;
+  if (n === 0) return [0, 0];
+  const mean = scores.reduce((a, b) => a + b, 0) / n;
+  if (n === 1) return [mean, mean];
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / (n - 1);
+  const half = Z_95 * Math.sqrt(variance / n);
+  return [parseFloat((mean - half).toFixed(2)), parseFloat((mean + half).toFixed(2))];
+};
+
+/** Best mean score first; equal means go to the higher lower bound, i.e. the steadier entrant. */
+export const rankStandings = (standings: TournamentStanding[]): TournamentStanding[] =>
+  [...standings].sort((a, b) => b.summary.meanScore - a.summary.meanScore || b.ci95[0] - a.ci95[0]);
+
+/** Whether two entrants' intervals overlap, i.e. the tournament can't tell them apart. */
+export const isTie = (a: TournamentStanding, b: TournamentStanding): boolean => a.ci95[0] <= b.ci95[1] && b.ci95[0] <= a.ci95[1];
+
+export const sameSetup = (a: TournamentSetup, b: TournamentSetup): boolean =>
+  a.episodes === b.episodes && a.seed === b.seed && a.levels.length === b.levels.length && a.levels.every((level, i) => level === b.levels[i]);
+
+/**
+ * Plays every entrant on the setup's episodes and returns their standings, ranked. `onEntrant`
+ * runs after each entrant; awaiting it lets a UI repaint in between.
+ */
+export const runTournament = async (
+  entrants: TournamentEntrant[], setup: TournamentSetup, options: TournamentOptions = {},
+  onEntrant?: (done: number, total: number) => void | Promise<void>
+): Promise<TournamentStanding[]> => {
+  if (entrants.length === 0) throw new Error('No agents to play the tournament');
+  if (setup.levels.length === 0) throw new Error('No levels to play');
+  if (!Number.isInteger(setup.episodes) || setup.episodes < 1) throw new Error(`episodes must be a positive integer, got ${setup.episodes}`);
+  const seeds = evaluationSeeds(setup.episodes, setup.seed);
+
+  const standings: TournamentStanding[] = [];
+  for (const entrant of entrants) {
+    const episodes: EvaluationEpisode[] = [];
+    let best: EvaluationEpisode | null = null;
+    for (const level of setup.levels) {
+      for (const seed of seeds) {
+        const episode = playEvaluationEpisode(entrant.policy, level, seed, options, true);
+        if (!best || episode.score > best.score) best = episode;
+        // Only the best run's replay is kept
+        episodes.push({ ...episode, replay: null });
+      }
+    }
+    standings.push({
+      id: entrant.id,
+      name: entrant.policy.name,
+      summary: summarizeEpisodes(null, entrant.policy.name, episodes),
+      ci95: confidenceInterval(episodes.map(e => e.score)),
+      bestRun: best!.replay!,
+      playedAt: new Date().toISOString()
+    });
+    await onEntrant?.(standings.length, entrants.length);
+  }
+  return rankStandings(standings);
+};
+
+/**
+ * Folds a tournament's standings into the run's leaderboard. Entrants that played replace their old
+ * standing and the rest keep theirs; a different setup isn't comparable, so it starts a new board.
+ */
+export const mergeLeaderboard = (
+  board: Leaderboard | null, run: string, setup: TournamentSetup, standings: TournamentStanding[]
+): Leaderboard => {
+  const kept = board && sameSetup(board.setup, setup) ? board.standings.filter(s => !standings.some(n => n.id === s.id)) : [];
+  return { run, setup, standings: rankStandings([...kept, ...standings]), updatedAt: new Date().toISOString() };
+};
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { KeyValueStore } from '../storage/KeyValueStore';
+
+/**
+ * KeyValueStore persisted as a single JSON file. Writes stay in memory until flush(), so a
+ * checkpoint that sets several keys rewrites the file once. The file goes to a temp file
+ * first so an interrupted run never leaves a truncated model behind.
+ */
+export class FileStore implements KeyValueStore {
+  private data: Record<string, string> = {};
+  private dirty = false;
+
+  constructor(readonly filePath: string) {
+    if (fs.existsSync(filePath)) {
+      this.data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.data, key) ? this.data[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data[key] = value;
+    this.dirty = true;
+  }
+
+  removeItem(key: string): void {
+    delete this.data[key];
+    this.dirty = true;
+  }
+
+  /** Writes the file if anything changed since the last flush. */
+  flush(): void {
+    if (!this.dirty) return;
+    fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data));
+    fs.renameSync(tmp, this.filePath);
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Tiny `--key value` / `--flag` parser so the CLI scripts stay dependency-free.
+ */
+export interface ParsedArgs {
+  flags: Set<string>;
+  values: Map<string, string>;
+  positional: string[];
+  has(name: string): boolean;
+  string(name: string, fallback: string): string;
+  number(name: string, fallback: number): number;
+}
+
+export const parseArgs = (argv: string[]): ParsedArgs => {
+  const flags = new Set<string>();
+  const values = new Map<string, string>();
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      values.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      values.set(arg.slice(2), argv[++i]);
+    } else {
+      flags.add(arg.slice(2));
+    }
+  }
+
+  return {
+    flags,
+    values,
+    positional,
+    has: name => flags.has(name) || values.has(name),
+    string: (name, fallback) => values.get(name) ?? fallback,
+    number: (name, fallback) => {
+      const raw = values.get(name);
+      if (raw === undefined) return fallback;
+      const n = Number(raw.replace(/_/g, ''));
+      if (!Number.isFinite(n)) throw new Error(`--${name} expects a number, got "${raw}"`);
+      return n;
+    }
+  };
+};
@@ -0,0 +1,94 @@
+
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { ACTIONS } from '../env/Environment';
+import { VecEnv } from '../env/VecEnv';
+import { ObservationEncoder, OBSERVATION_ENCODERS } from '../env/encoders';
+import { PlannerAgent } from '../ai/PlannerAgent';
+import { PLANNERS, PlannerKind } from '../ai/planners';
+import { parseArgs } from './args';
+
+const USAGE = `Usage: npm run benchmark -- [options]
+
+  --envs <n>          Environments stepped in lockstep (default: 16)
+  --steps <n>         Total environment steps per benchmark (default: 1000000)
+  --encoder <name>    Observation encoder: ${Object.keys(OBSERVATION_ENCODERS).join(', ')} (default: tabular)
+  --seed <n>          Seed for games and random actions (default: 1)
+  --planner <name>    Instead of measuring throughput, score a planner baseline: ${Object.keys(PLANNERS).join(', ')} or all
+  --episodes <n>      Episodes per planner, each from level 1 (default: 100)
+  --help              Show this message`;
+
+const report = (label: string, steps: number, started: number) => {
+  const seconds = Math.max(0.001, (Date.now() - started) / 1000);
+  console.log(`${label.padEnd(28)} ${steps.toLocaleString().padStart(12)} steps  ${seconds.toFixed(2).padStart(7)}s  ${Math.round(steps / seconds).toLocaleString().padStart(12)} steps/s`);
+};
+
+/** Plays each planner for the same number of episodes from the same seed and prints how they score. */
+const benchmarkPlanners = (kinds: PlannerKind[], episodes: number, seed: number) => {
+  for (const kind of kinds) {
+    const agent = new PlannerAgent(kind, { seed, restartLevel: 1 });
+    const started = Date.now();
+    const scores: number[] = [];
+    while (scores.length < episodes) {
+      if (agent.game.state.isGameOver) scores.push(agent.game.state.score);
+      agent.tick(1);
+    }
+    const stats = agent.getStats();
+    const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+    const seconds = Math.max(0.001, (Date.now() - started) / 1000);
+    console.log(
+      `${PLANNERS[kind].padEnd(12)} mean score ${mean.toFixed(1).padStart(8)}  best ${String(stats.bestScoreEver).padStart(6)}  ` +
+      `levels/episode ${(stats.levelSuccessRate / 100).toFixed(2).padStart(6)}  ${Math.round(stats.totalStepsEver / seconds).toLocaleString().padStart(9)} steps/s`
+    );
+  }
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (args.has('planner')) {
+    const name = args.string('planner', 'all');
+    if (name !== 'all' && !(name in PLANNERS)) throw new Error(`Unknown planner "${name}"; expected one of ${Object.keys(PLANNERS).join(', ')} or all`);
+    const kinds = name === 'all' ? Object.keys(PLANNERS) as PlannerKind[] : [name as PlannerKind];
+    benchmarkPlanners(kinds, args.number('episodes', 100), args.number('seed', 1));
+    return;
+  }
+
+  const numEnvs = args.number('envs', 16);
+  const totalSteps = args.number('steps', 1_000_000);
+  const seed = args.number('seed', 1);
+  const encoderName = args.string('encoder', 'tabular');
+  const encoder: ObservationEncoder<unknown> | undefined = OBSERVATION_ENCODERS[encoderName as keyof typeof OBSERVATION_ENCODERS];
+  if (!encoder) throw new Error(`Unknown encoder "${encoderName}"; expected one of ${Object.keys(OBSERVATION_ENCODERS).join(', ')}`);
+
+  // Random actions die quickly, so these numbers include plenty of resets
+  const rng = new Random(seed);
+
+  let started = Date.now();
+  let game = new SnakeGame(1, { seed: rng.nextSeed() });
+  for (let i = 0; i < totalSteps; i++) {
+    if (game.state.isGameOver) game = new SnakeGame(1, { seed: rng.nextSeed() });
+    game.step(ACTIONS[rng.int(ACTIONS.length)]);
+  }
+  report('SnakeGame (raw)', totalSteps, started);
+
+  const vec = new VecEnv({ numEnvs, seed, encoder });
+  const actions = new Uint8Array(numEnvs);
+  const rounds = Math.ceil(totalSteps / numEnvs);
+  started = Date.now();
+  for (let t = 0; t < rounds; t++) {
+    for (let i = 0; i < numEnvs; i++) actions[i] = rng.int(ACTIONS.length);
+    vec.step(actions);
+  }
+  report(`VecEnv x${numEnvs} (${encoder.id})`, rounds * numEnvs, started);
+  console.log(`Episodes finished: ${vec.totalEpisodes.toLocaleString()}`);
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { QLearningAgent } from '../ai/QLearningAgent';
+import { DQNAgent } from '../ai/DQNAgent';
+import { Q_VALUE_AGENTS, QValueAgent, QValueAgentKind } from '../ai/QValueAgent';
+import { PLANNERS, PlannerKind } from '../ai/planners';
+import { EvaluationPolicy, evaluatePolicy, formatEvaluationTable, parseLevelList, plannerPolicy, valueAgentPolicy } from '../ai/evaluation';
+import { parseLevelPack } from '../game/levels';
+import { getDefaultLevelPack } from '../game/defaultLevels';
+import { resolveGameConfig } from '../game/gameConfig';
+import { FileStore } from './FileStore';
+import { parseArgs } from './args';
+
+const USAGE = `Usage: npm run evaluate -- [options]
+
+  --type <kind>       Agent to evaluate: ${Object.keys(Q_VALUE_AGENTS).join(', ')} (default: qlearning)
+  --model <path>      Model file written by npm run train (default: models/<type>.json)
+  --planner <name>    Evaluate a planner baseline instead: ${Object.keys(PLANNERS).join(', ')}
+  --on <list>         Levels to evaluate, e.g. 1-4,7 (default: every level in the pack)
+  --episodes <n>      Episodes per level, one per seed of the seed set (default: 20)
+  --seed <n>          Seed the seed set is derived from (default: 1)
+  --levels <path>     Level pack JSON (default: built-in pack)
+  --config <path>     Partial GameConfig JSON (board size, wrap-around, rule constants)
+  --json <path>       Also write the report as JSON
+  --help              Show this message`;
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const levelPath = args.has('levels') ? args.string('levels', '') : null;
+  const levelPack = levelPath ? parseLevelPack(fs.readFileSync(levelPath, 'utf8')) : undefined;
+
+  const configPath = args.has('config') ? args.string('config', '') : null;
+  const gameConfig = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : undefined;
+
+  const config = resolveGameConfig(gameConfig);
+  const pack = levelPack ?? getDefaultLevelPack(config.width, config.height);
+
+  let policy: EvaluationPolicy;
+  if (args.has('planner')) {
+    const kind = args.string('planner', '') as PlannerKind;
+    if (!(kind in PLANNERS)) throw new Error(`Unknown planner "${kind}"; expected one of ${Object.keys(PLANNERS).join(', ')}`);
+    policy = plannerPolicy(kind);
+  } else {
+    const type = args.string('type', 'qlearning') as QValueAgentKind;
+    if (!(type in Q_VALUE_AGENTS)) throw new Error(`Unknown agent type "${type}"; expected one of ${Object.keys(Q_VALUE_AGENTS).join(', ')}`);
+    const modelPath = args.string('model', `models/${type}.json`);
+    if (!fs.existsSync(modelPath)) throw new Error(`No model at ${modelPath}; train one with npm run train first`);
+    // Nothing here saves, so the model file is only read
+    const options = { store: new FileStore(modelPath), levelPack, gameConfig };
+    const agent: QValueAgent = type === 'dqn' ? new DQNAgent(options) : new QLearningAgent(options);
+    policy = valueAgentPolicy(agent, `${Q_VALUE_AGENTS[type]} (${modelPath})`);
+  }
+
+  const levels = args.has('on')
+    ? parseLevelList(args.string('on', ''))
+    : pack.levels.map((_, i) => i + 1);
+  const episodes = args.number('episodes', 20);
+  const seed = args.number('seed', 1);
+
+  console.log(`Evaluating ${policy.name} on levels ${levels.join(', ')}: ${episodes} episodes each, seed ${seed}`);
+  const report = await evaluatePolicy(policy, { levels, episodes, seed, levelPack, gameConfig });
+  console.log(formatEvaluationTable(report));
+
+  if (args.has('json')) {
+    const jsonPath = args.string('json', '');
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log(`Wrote ${jsonPath}`);
+  }
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
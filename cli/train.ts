@@ -0,0 +1,158 @@
+
+import fs from 'fs';
+import { QLearningAgent } from '../ai/QLearningAgent';
+import { DQNAgent } from '../ai/DQNAgent';
+import { QLearningTrainer } from '../ai/QLearningTrainer';
+import { Q_VALUE_AGENTS, QValueAgent, QValueAgentKind } from '../ai/QValueAgent';
+import { recordPlannerDemos } from '../ai/PlannerAgent';
+import { PLANNERS, PlannerKind } from '../ai/planners';
+import { parseDemonstrations } from '../ai/imitation';
+import { CURRICULUM_MODES, describeStage } from '../ai/curriculum';
+import { CurriculumMode } from '../types';
+import { parseLevelPack } from '../game/levels';
+import { createRewardFunction } from '../game/rewards';
+import { FileStore } from './FileStore';
+import { parseArgs } from './args';
+
+const USAGE = `Usage: npm run train -- [options]
+
+  --type <kind>       Agent to train: ${Object.keys(Q_VALUE_AGENTS).join(', ')} (default: qlearning)
+  --model <path>      Model file to resume from and write to (default: models/<type>.json)
+  --episodes <n>      Stop after n completed episodes
+  --steps <n>         Stop after n agent steps (default: 1000000 if --episodes is not given)
+  --seed <n>          Seed for exploration and game episodes
+  --levels <path>     Level pack JSON to train on (default: built-in pack)
+  --config <path>     Partial GameConfig JSON (board size, wrap-around, rule constants)
+  --rewards <path>    Partial RewardConfig JSON for reward-shaping experiments
+  --agent <path>      Partial AgentConfig JSON (algorithm, state encoding, action mode and masking, demo mix, gamma, lambda, alpha and epsilon schedules)
+  --dqn <path>        Partial DQNSettings JSON (observation, hidden layers, replay and target sync)
+  --curriculum <arg>  Curriculum mode (${Object.keys(CURRICULUM_MODES).join(', ')}) with default thresholds, or a partial CurriculumConfig JSON path
+  --demos <path>      Demonstrations JSON to imitate (Export in the app's Imitation panel)
+  --imitate <planner> Also record demonstrations from a planner: ${Object.keys(PLANNERS).join(', ')}
+  --demo-episodes <n> Planner episodes to record (default: 20), each cut at --demo-steps (default: 5000)
+  --pretrain <n>      Epochs of pretraining on the demonstrations before RL (default: 0)
+  --log-every <n>     Steps between stat lines (default: 100000)
+  --save-every <n>    Steps between checkpoints to the model file (default: 1000000)
+  --help              Show this message`;
+
+const BATCH = 1000;
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const type = args.string('type', 'qlearning') as QValueAgentKind;
+  if (!(type in Q_VALUE_AGENTS)) throw new Error(`Unknown agent type "${type}"; expected one of ${Object.keys(Q_VALUE_AGENTS).join(', ')}`);
+  const modelPath = args.string('model', `models/${type}.json`);
+  const maxEpisodes = args.number('episodes', Infinity);
+  const maxSteps = args.number('steps', Number.isFinite(maxEpisodes) ? Infinity : 1_000_000);
+  const logEvery = args.number('log-every', 100_000);
+  const saveEvery = args.number('save-every', 1_000_000);
+  const seed = args.has('seed') ? args.number('seed', 0) : undefined;
+
+  const levelPath = args.has('levels') ? args.string('levels', '') : null;
+  const levelPack = levelPath ? parseLevelPack(fs.readFileSync(levelPath, 'utf8')) : undefined;
+
+  const configPath = args.has('config') ? args.string('config', '') : null;
+  const gameConfig = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : undefined;
+
+  const rewardsPath = args.has('rewards') ? args.string('rewards', '') : null;
+  const rewardFunction = rewardsPath ? createRewardFunction(JSON.parse(fs.readFileSync(rewardsPath, 'utf8'))) : undefined;
+
+  const agentPath = args.has('agent') ? args.string('agent', '') : null;
+  const config = agentPath ? JSON.parse(fs.readFileSync(agentPath, 'utf8')) : undefined;
+
+  const dqnPath = args.has('dqn') ? args.string('dqn', '') : null;
+  const settings = dqnPath ? JSON.parse(fs.readFileSync(dqnPath, 'utf8')) : undefined;
+
+  const store = new FileStore(modelPath);
+  const options = { seed, store, levelPack, gameConfig, rewardFunction, config };
+  const agent: QValueAgent = type === 'dqn' ? new DQNAgent({ ...options, settings }) : new QLearningAgent(options);
+  const trainer = new QLearningTrainer(agent, QLearningTrainer.loadStats(agent));
+  if (args.has('curriculum')) {
+    const curriculum = args.string('curriculum', '');
+    trainer.setCurriculum(curriculum in CURRICULUM_MODES
+      ? { ...trainer.curriculum.config, mode: curriculum as CurriculumMode }
+      : JSON.parse(fs.readFileSync(curriculum, 'utf8')));
+  }
+
+  const size = agent instanceof DQNAgent
+    ? `network ${agent.network.layerSizes.join('-')} on ${agent.encoder.id}`
+    : `Q-table ${agent.memorySize.toLocaleString()} states`;
+  console.log(`Training ${modelPath} (resuming at ${agent.totalStepsEver.toLocaleString()} steps, ${size})`);
+
+  const demosPath = args.has('demos') ? args.string('demos', '') : null;
+  const demos = demosPath ? parseDemonstrations(fs.readFileSync(demosPath, 'utf8')) : [];
+  if (args.has('imitate')) {
+    const kind = args.string('imitate', '') as PlannerKind;
+    if (!(kind in PLANNERS)) throw new Error(`Unknown planner "${kind}"; expected one of ${Object.keys(PLANNERS).join(', ')}`);
+    demos.push(...recordPlannerDemos(kind, args.number('demo-episodes', 20), { seed, levelPack, gameConfig, maxSteps: args.number('demo-steps', 5000) }));
+  }
+  const pretrainEpochs = args.number('pretrain', 0);
+  if (demos.length > 0) {
+    agent.setDemonstrations(demos);
+    console.log(`Loaded ${demos.length} demonstrations (${agent.demoSize.toLocaleString()} steps, ${agent.demoAgreement}% agreement)`);
+    if (pretrainEpochs > 0) {
+      agent.pretrain(pretrainEpochs);
+      console.log(`Pretrained ${pretrainEpochs} epochs: ${agent.demoAgreement}% agreement`);
+    }
+  } else if (pretrainEpochs > 0) {
+    throw new Error('--pretrain needs demonstrations from --demos or --imitate');
+  }
+
+  const started = Date.now();
+  let steps = 0;
+  let episodes = 0;
+  let nextLog = logEvery;
+  let nextSave = saveEvery;
+
+  const logStats = () => {
+    const s = trainer.getStats();
+    const rate = Math.round(steps / Math.max(0.001, (Date.now() - started) / 1000));
+    console.log([
+      `episodes=${s.episodes}`,
+      `epsilon=${s.epsilon.toFixed(4)}`,
+      `totalReward=${s.totalReward.toFixed(1)}`,
+      `qTableSize=${s.qTableSize}`,
+      `bestScoreEver=${s.bestScoreEver}`,
+      `avgScoreLast100=${s.avgScoreLast100}`,
+      `currentLevel=${s.currentLevel}`,
+      `totalStepsEver=${s.totalStepsEver}`,
+      `levelSuccessRate=${s.levelSuccessRate}%`,
+      ...(s.curriculum && s.curriculum.config.mode !== 'off'
+        ? [`stage=${s.curriculum.stage}(${describeStage(s.curriculum.config.mode, s.curriculum.stage, agent.game.levelPack).replace(/ /g, '')})`]
+        : []),
+      ...(s.demoAgreement != null ? [`demoAgreement=${s.demoAgreement}%`] : []),
+      `steps/s=${rate}`
+    ].join(' '));
+  };
+
+  const save = () => {
+    trainer.save();
+    store.flush();
+  };
+
+  let interrupted = false;
+  process.on('SIGINT', () => { interrupted = true; });
+
+  while (!interrupted && steps < maxSteps && episodes < maxEpisodes) {
+    // With an episode limit, tick one step at a time so we stop exactly on it
+    const batch = Number.isFinite(maxEpisodes) ? 1 : Math.min(BATCH, maxSteps - steps);
+    episodes += trainer.tick(batch);
+    steps += batch;
+    if (steps >= nextLog) { logStats(); nextLog += logEvery; }
+    if (steps >= nextSave) { save(); nextSave += saveEvery; }
+  }
+
+  if (steps !== nextLog - logEvery) logStats();
+  save();
+  console.log(`Saved model to ${modelPath}${interrupted ? ' (interrupted)' : ''}`);
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
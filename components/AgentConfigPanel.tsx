@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { ActionMode, AgentConfig, Schedule, ScheduleType, TabularAlgorithm, TabularEncoding } from '../types';
+import { SCHEDULE_TYPES, convertSchedule } from '../ai/schedules';
+import { TABULAR_ALGORITHMS, TABULAR_ENCODINGS, usesTraces } from '../ai/agentConfig';
+
+interface AgentConfigPanelProps {
+  config: AgentConfig;
+  tabular: boolean; // The DQN ignores the algorithm, trace and state encoding settings, so they are hidden for it
+  tableSizes?: Partial<Record<TabularEncoding, number>>; // States learned per encoding
+  error: string | null;
+  onApply: (config: AgentConfig) => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step, onChange }) => (
+  <label className="flex flex-col gap-1 flex-1 min-w-0">
+    <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{label}</span>
+    <input type="number" step={step ?? 'any'} value={Number.isNaN(value) ? '' : value} onChange={e => onChange(parseFloat(e.target.value))} className={inputClass} />
+  </label>
+);
+
+const ScheduleEditor: React.FC<{ label: string; schedule: Schedule; onChange: (schedule: Schedule) => void }> = ({ label, schedule, onChange }) => {
+  // Every field other than `type` is a number, so one setter covers all schedule shapes
+  const set = (key: string) => (value: number) => onChange({ ...schedule, [key]: value } as Schedule);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">{label}</span>
+        <select value={schedule.type} onChange={e => onChange(convertSchedule(schedule, e.target.value as ScheduleType))} className={inputClass}>
+          {SCHEDULE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        {Object.keys(schedule).filter(k => k !== 'type').map(key => (
+          <NumberField key={key} label={key} value={(schedule as unknown as Record<string, number>)[key]} onChange={set(key)} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Editable Q-value agent hyperparameters, plus the update rule for the tabular agent. Changes are a draft until applied.
+ */
+const AgentConfigPanel: React.FC<AgentConfigPanelProps> = props => {
+  const [draft, setDraft] = useState<AgentConfig>(props.config);
+  useEffect(() => setDraft(props.config), [props.config]);
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Hyperparameters</span>
+      </div>
+      {props.tabular && <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">method</span>
+        <select value={draft.algorithm} onChange={e => setDraft({ ...draft, algorithm: e.target.value as TabularAlgorithm })} className={inputClass}>
+          {(Object.keys(TABULAR_ALGORITHMS) as TabularAlgorithm[]).map(a => <option key={a} value={a}>{TABULAR_ALGORITHMS[a]}</option>)}
+        </select>
+      </div>}
+      {props.tabular && <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">state</span>
+          <select value={draft.stateEncoding} onChange={e => setDraft({ ...draft, stateEncoding: e.target.value as TabularEncoding })} className={inputClass}>
+            {(Object.keys(TABULAR_ENCODINGS) as TabularEncoding[]).map(s => <option key={s} value={s}>{TABULAR_ENCODINGS[s]}</option>)}
+          </select>
+        </div>
+        {props.tableSizes && <div className="grid grid-cols-5 gap-1">
+          {(Object.keys(TABULAR_ENCODINGS) as TabularEncoding[]).map(s => (
+            <div key={s} className={`px-1.5 py-1 rounded-md text-center border ${s === props.config.stateEncoding ? 'border-emerald-500/40 text-emerald-300' : 'border-white/5 text-white/40'}`}>
+              <div className="text-[8px] font-black uppercase tracking-widest truncate">{s}</div>
+              <div className="text-[10px] font-black mono">{(props.tableSizes![s] ?? 0).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>}
+      </div>}
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">actions</span>
+        <select value={draft.actionMode} onChange={e => setDraft({ ...draft, actionMode: e.target.value as ActionMode })} className={inputClass}>
+          <option value="absolute">absolute (4 directions)</option>
+          <option value="relative">relative (3 turns)</option>
+        </select>
+        <label className="flex items-center gap-1.5 text-[9px] font-black text-white/50 uppercase tracking-widest whitespace-nowrap">
+          <input type="checkbox" checked={draft.maskActions} onChange={e => setDraft({ ...draft, maskActions: e.target.checked })} />
+          mask
+        </label>
+      </div>
+      {draft.actionMode !== props.config.actionMode && (
+        <p className="text-[9px] font-black text-amber-400/80 uppercase tracking-widest">Changing the action space starts the model over</p>
+      )}
+      <div className="flex items-end gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16 pb-2">gamma</span>
+        <NumberField label="discount" value={draft.gamma} step={0.01} onChange={gamma => setDraft({ ...draft, gamma })} />
+        {props.tabular && usesTraces(draft.algorithm) && <NumberField label="trace λ" value={draft.lambda} step={0.05} onChange={lambda => setDraft({ ...draft, lambda })} />}
+      </div>
+      <div className="flex items-end gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16 pb-2">demos</span>
+        <NumberField label="mix" value={draft.demoMix} step={0.05} onChange={demoMix => setDraft({ ...draft, demoMix })} />
+      </div>
+      <ScheduleEditor label="alpha" schedule={draft.alpha} onChange={alpha => setDraft({ ...draft, alpha })} />
+      <ScheduleEditor label="epsilon" schedule={draft.epsilon} onChange={epsilon => setDraft({ ...draft, epsilon })} />
+      <div className="flex gap-2">
+        <button onClick={() => props.onApply(draft)} className="flex-1 py-2.5 text-xs rounded-xl font-black bg-emerald-600/80 text-white hover:bg-emerald-600 transition-all">APPLY</button>
+        <button onClick={() => setDraft(props.config)} className="flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all">REVERT</button>
+      </div>
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default AgentConfigPanel;
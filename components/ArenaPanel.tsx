@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ArenaMatch } from '../ai/arena';
+import { MAX_ARENA_SNAKES, MIN_ARENA_SNAKES } from '../game/ArenaGame';
+
+// Snake i is drawn in ARENA_COLORS[i], on the board and on the scoreboard
+export const ARENA_COLORS = ['#34d399', '#60a5fa', '#f472b6', '#fbbf24'];
+
+interface ArenaPanelProps {
+  match: ArenaMatch | null;
+  steps: number; // The match's step count, so the scoreboard re-renders as it plays
+  controllers: Record<string, string>; // Who can take a seat: id -> label
+  levelNames: string[];
+  error: string | null;
+  onStart: (controllers: string[], level: number, seed: number) => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 flex-1 min-w-0">
+    <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const DEFAULT_SEATS = ['planner:astar', 'planner:greedy', 'planner:hamiltonian', 'planner:astar'];
+
+/**
+ * ARENA mode: seat 2-4 controllers on one board, start a match, and follow each snake's score,
+ * reward and fate. Planners, frozen copies of the Q-value agents and the genetic leader can all play.
+ */
+const ArenaPanel: React.FC<ArenaPanelProps> = props => {
+  const [count, setCount] = useState(2);
+  const [seats, setSeats] = useState(DEFAULT_SEATS);
+  const [level, setLevel] = useState(1);
+  const [seed, setSeed] = useState(1);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+  const match = props.match;
+  const state = match?.game.state;
+  const winner = match?.winner() ?? null;
+  const counts = Array.from({ length: MAX_ARENA_SNAKES - MIN_ARENA_SNAKES + 1 }, (_, i) => MIN_ARENA_SNAKES + i);
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Arena</span>
+        <span className="text-xs font-black text-white mono">{state ? `STEP ${props.steps}${state.isOver ? ' · OVER' : ''}` : '—'}</span>
+      </div>
+      {match && state && (
+        <div className="space-y-1">
+          {state.snakes.map((s, i) => (
+            <div key={i} className={`flex items-center gap-2 px-2 py-1.5 rounded-md border border-white/5 ${s.alive ? '' : 'opacity-40'}`}>
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: ARENA_COLORS[i] }} />
+              <span className="flex-1 min-w-0 text-[10px] font-black text-white/80 truncate">{match.names[i]}</span>
+              <span className="text-[10px] font-black mono text-white">{s.score}</span>
+              <span className="text-[9px] font-black mono text-white/40 w-14 text-right" title="Total reward">{match.totalRewards[i].toFixed(0)}</span>
+              <span className="text-[9px] font-black mono text-white/50 w-14 text-right">{s.alive ? `LEN ${s.body.length}` : s.died}</span>
+            </div>
+          ))}
+          <p className="text-[9px] font-black text-white/30 uppercase tracking-widest">Score · reward · length, or how it died</p>
+          {state.isOver && (
+            <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">
+              {winner === null ? 'Draw' : `Winner: ${match.names[winner]}`}
+            </p>
+          )}
+        </div>
+      )}
+      <div className="space-y-2 pt-2 border-t border-white/5">
+        <div className="flex gap-2">
+          <Field label="snakes">
+            <select value={count} onChange={e => setCount(parseInt(e.target.value, 10))} className={inputClass}>
+              {counts.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </Field>
+          <Field label="level">
+            <select value={level} onChange={e => setLevel(parseInt(e.target.value, 10))} className={inputClass}>
+              {props.levelNames.map((name, i) => <option key={i} value={i + 1}>{i + 1} · {name}</option>)}
+            </select>
+          </Field>
+          <Field label="seed"><input type="number" value={seed} onChange={e => setSeed(parseInt(e.target.value, 10))} className={inputClass} /></Field>
+        </div>
+        {seats.slice(0, count).map((id, i) => (
+          <label key={i} className="flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: ARENA_COLORS[i] }} />
+            <select value={id} onChange={e => setSeats(seats.map((s, j) => (j === i ? e.target.value : s)))} className={inputClass}>
+              {Object.entries(props.controllers).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={Number.isNaN(seed)} onClick={() => props.onStart(seats.slice(0, count), level, seed)}>START MATCH</button>
+      </div>
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default ArenaPanel;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { CheckpointMeta, diffCheckpointStats } from '../storage/CheckpointStore';
+
+interface CheckpointPanelProps {
+  runs: string[];
+  run: string;
+  agentLabel: string;
+  autoEvery: string; // e.g. "1000 episodes"
+  checkpoints: CheckpointMeta[];
+  disabledReason: string | null;
+  error: string | null;
+  onSelectRun: (run: string) => void;
+  onSave: (name: string) => void;
+  onRestore: (checkpoint: CheckpointMeta) => void;
+  onDelete: (checkpoint: CheckpointMeta) => void;
+}
+
+const formatStat = (n: number) => Number.isInteger(n) ? n.toLocaleString() : n.toFixed(4);
+
+/**
+ * Run picker and checkpoint list for the active agent: save, restore, delete and diff two checkpoints.
+ */
+const CheckpointPanel: React.FC<CheckpointPanelProps> = props => {
+  const [name, setName] = useState('');
+  const [newRun, setNewRun] = useState('');
+  const [compare, setCompare] = useState<number[]>([]);
+  const buttonClass = 'py-2 px-3 text-[10px] rounded-lg font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+  const inputClass = 'flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-[10px] font-black mono text-white placeholder:text-white/20';
+  const disabled = !!props.disabledReason;
+
+  const toggleCompare = (id: number) => {
+    setCompare(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+  };
+  // Oldest first, so the diff reads as "what changed since"
+  const compared = props.checkpoints.filter(c => compare.includes(c.id)).sort((a, b) => a.id - b.id);
+  const diff = compared.length === 2 ? diffCheckpointStats(compared[0], compared[1]) : [];
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Checkpoints</span>
+        <span className="text-xs font-black text-white mono uppercase">{props.agentLabel}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={props.run} disabled={disabled}
+          onChange={e => props.onSelectRun(e.target.value)}
+          className={inputClass}
+        >
+          {(props.runs.includes(props.run) ? props.runs : [props.run, ...props.runs]).map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <input className={inputClass} placeholder="new run" value={newRun} disabled={disabled} onChange={e => setNewRun(e.target.value)} />
+        <button className={buttonClass} disabled={disabled || !newRun.trim()} onClick={() => { props.onSelectRun(newRun.trim()); setNewRun(''); }}>NEW</button>
+      </div>
+
+      <div className="flex gap-2">
+        <input className={inputClass} placeholder="checkpoint name" value={name} disabled={disabled} onChange={e => setName(e.target.value)} />
+        <button className={buttonClass} disabled={disabled} onClick={() => { props.onSave(name.trim()); setName(''); }}>SAVE</button>
+      </div>
+      <p className="text-[10px] font-black text-white/30 uppercase tracking-widest">Auto checkpoint every {props.autoEvery}</p>
+
+      <div className="space-y-2 max-h-56 overflow-y-auto scrollbar-hide">
+        {props.checkpoints.length === 0 && (
+          <p className="text-[10px] font-black text-white/30 uppercase tracking-widest">No checkpoints in this run yet</p>
+        )}
+        {props.checkpoints.map(c => (
+          <div key={c.id} className={`flex items-center gap-2 p-2 rounded-lg border ${compare.includes(c.id) ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-white/5'}`}>
+            <input type="checkbox" checked={compare.includes(c.id)} onChange={() => toggleCompare(c.id)} className="accent-emerald-500" title="Compare" />
+            <div className="flex-1 min-w-0">
+              <div className="text-[10px] font-black text-white truncate">{c.name}</div>
+              <div className="text-[9px] font-black mono text-white/30 uppercase">
+                {c.kind} · {new Date(c.createdAt).toLocaleString()} · {(c.trainingSteps / 1_000_000).toFixed(2)}M steps
+              </div>
+            </div>
+            <button className={buttonClass} disabled={disabled} onClick={() => props.onRestore(c)}>RESTORE</button>
+            <button className={buttonClass} disabled={disabled} onClick={() => { setCompare(ids => ids.filter(i => i !== c.id)); props.onDelete(c); }}>✕</button>
+          </div>
+        ))}
+      </div>
+
+      {diff.length > 0 && (
+        <table className="w-full text-[10px] font-black mono">
+          <thead>
+            <tr className="text-white/30 uppercase">
+              <th className="text-left font-black">Stat</th>
+              <th className="text-right font-black truncate max-w-[60px]">{compared[0].name}</th>
+              <th className="text-right font-black truncate max-w-[60px]">{compared[1].name}</th>
+              <th className="text-right font-black">Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.map(d => (
+              <tr key={d.key} className="text-white/70">
+                <td>{d.key}</td>
+                <td className="text-right">{formatStat(d.before)}</td>
+                <td className="text-right">{formatStat(d.after)}</td>
+                <td className={`text-right ${d.delta > 0 ? 'text-emerald-400' : d.delta < 0 ? 'text-red-400' : 'text-white/30'}`}>{d.delta > 0 ? '+' : ''}{formatStat(d.delta)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {props.disabledReason && <p className="text-[10px] font-black text-white/30 uppercase tracking-widest">{props.disabledReason}</p>}
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default CheckpointPanel;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { CurriculumConfig, CurriculumMode, CurriculumState, LevelPack } from '../types';
+import { CURRICULUM_MODES, Curriculum, DEFAULT_CURRICULUM_CONFIG, describeStage, stageCount } from '../ai/curriculum';
+
+interface CurriculumPanelProps {
+  state?: CurriculumState; // From the active agent's stats; absent means it never had a curriculum
+  pack: LevelPack; // Stages are laid out over it
+  error: string | null;
+  onApply: (config: CurriculumConfig) => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step, onChange }) => (
+  <label className="flex flex-col gap-1 flex-1 min-w-0">
+    <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{label}</span>
+    <input type="number" step={step ?? 'any'} value={Number.isNaN(value) ? '' : value} onChange={e => onChange(parseFloat(e.target.value))} className={inputClass} />
+  </label>
+);
+
+/**
+ * Curriculum for the Q-value agents: where episodes start, the promotion thresholds, and the
+ * active stage with its progress towards them. Changes are a draft until applied.
+ */
+const CurriculumPanel: React.FC<CurriculumPanelProps> = props => {
+  const config = props.state?.config ?? DEFAULT_CURRICULUM_CONFIG;
+  const [draft, setDraft] = useState<CurriculumConfig>(config);
+  // Stats arrive as fresh objects every frame, so only a changed config resets the draft
+  const configKey = JSON.stringify(config);
+  useEffect(() => setDraft(config), [configKey]);
+
+  const state = props.state;
+  const progress = state ? new Curriculum(state) : null;
+  const stages = stageCount(config.mode, props.pack);
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Curriculum</span>
+        {state && stages > 0 && <span className="text-xs font-black text-white mono">STAGE {Math.min(state.stage, stages)}/{stages}</span>}
+      </div>
+      {state && stages > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-black text-emerald-300 uppercase tracking-widest truncate">{describeStage(config.mode, Math.min(state.stage, stages), props.pack)}</div>
+          <div className="grid grid-cols-3 gap-1 text-center">
+            <div className="px-1.5 py-1 rounded-md border border-white/5">
+              <div className="text-[8px] font-black text-white/30 uppercase tracking-widest">episodes</div>
+              <div className="text-[10px] font-black mono text-white/70">{state.recentScores.length}/{config.window}</div>
+            </div>
+            <div className="px-1.5 py-1 rounded-md border border-white/5">
+              <div className="text-[8px] font-black text-white/30 uppercase tracking-widest">clears</div>
+              <div className="text-[10px] font-black mono text-white/70">{progress!.successRate}%/{config.promoteSuccessRate}%</div>
+            </div>
+            <div className="px-1.5 py-1 rounded-md border border-white/5">
+              <div className="text-[8px] font-black text-white/30 uppercase tracking-widest">avg score</div>
+              <div className="text-[10px] font-black mono text-white/70">{progress!.avgScore.toFixed(1)}/{config.promoteAvgScore}</div>
+            </div>
+          </div>
+        </div>
+      )}
+      {config.mode === 'procedural' && stages === 0 && (
+        <p className="text-[9px] font-black text-amber-400/80 uppercase tracking-widest">This level pack has no procedural levels</p>
+      )}
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">mode</span>
+        <select value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as CurriculumMode })} className={inputClass}>
+          {(Object.keys(CURRICULUM_MODES) as CurriculumMode[]).map(m => <option key={m} value={m}>{CURRICULUM_MODES[m]}</option>)}
+        </select>
+      </div>
+      {draft.mode !== 'off' && (
+        <div className="flex gap-2">
+          <NumberField label="clear %" value={draft.promoteSuccessRate} step={5} onChange={promoteSuccessRate => setDraft({ ...draft, promoteSuccessRate })} />
+          <NumberField label="avg score" value={draft.promoteAvgScore} step={1} onChange={promoteAvgScore => setDraft({ ...draft, promoteAvgScore })} />
+          <NumberField label="window" value={draft.window} step={10} onChange={window => setDraft({ ...draft, window })} />
+          {draft.mode === 'mixed' && <NumberField label="replay" value={draft.replayShare} step={0.05} onChange={replayShare => setDraft({ ...draft, replayShare })} />}
+        </div>
+      )}
+      {draft.mode !== config.mode && config.mode !== 'off' && (
+        <p className="text-[9px] font-black text-amber-400/80 uppercase tracking-widest">Changing the mode starts from the first stage</p>
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => props.onApply(draft)} className="flex-1 py-2.5 text-xs rounded-xl font-black bg-emerald-600/80 text-white hover:bg-emerald-600 transition-all">APPLY</button>
+        <button onClick={() => setDraft(config)} className="flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all">REVERT</button>
+      </div>
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default CurriculumPanel;
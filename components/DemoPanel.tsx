@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { PLANNERS, PlannerKind } from '../ai/planners';
+
+interface DemoPanelProps {
+  sources: Record<string, number>; // Saved demonstrations per source ('human' or a planner)
+  recordedSteps: number; // Steps across all saved demonstrations
+  loadedSteps: number; // Of those, the ones the agent can learn from in its action space
+  agreement: number | null;
+  message: string | null;
+  error: string | null;
+  onRecord: (kind: PlannerKind, episodes: number) => void;
+  onPretrain: (epochs: number) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+/**
+ * Demonstrations for imitation: record planner episodes, pretrain the selected agent on every
+ * saved demo, and export them for the CLI. Mixing demos into RL is `demo mix` under Hyperparameters.
+ */
+const DemoPanel: React.FC<DemoPanelProps> = props => {
+  const [planner, setPlanner] = useState<PlannerKind>('astar');
+  const [episodes, setEpisodes] = useState(5);
+  const [epochs, setEpochs] = useState(3);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+  const total = Object.keys(props.sources).reduce((n, source) => n + props.sources[source], 0);
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Imitation</span>
+        <span className="text-xs font-black text-white mono">{props.agreement === null ? '—' : `${props.agreement}% AGREE`}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {total === 0 && <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">No demonstrations yet</span>}
+        {Object.keys(props.sources).map(source => (
+          <span key={source} className="px-1.5 py-1 rounded-md border border-white/5 text-[9px] font-black uppercase tracking-widest text-white/60">
+            {PLANNERS[source as PlannerKind] ?? source} · {props.sources[source]}
+          </span>
+        ))}
+      </div>
+      {total > 0 && (
+        <p className="text-[9px] font-black text-white/30 uppercase tracking-widest">
+          {props.recordedSteps.toLocaleString()} steps recorded · {props.loadedSteps.toLocaleString()} usable by this agent
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <select value={planner} onChange={e => setPlanner(e.target.value as PlannerKind)} className={inputClass}>
+          {(Object.keys(PLANNERS) as PlannerKind[]).map(kind => <option key={kind} value={kind}>{PLANNERS[kind]}</option>)}
+        </select>
+        <input type="number" min={1} value={episodes} onChange={e => setEpisodes(parseInt(e.target.value, 10))} className={`${inputClass} w-16 flex-none`} title="Episodes" />
+        <button className={buttonClass} disabled={!(episodes >= 1)} onClick={() => props.onRecord(planner, episodes)}>RECORD</button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">epochs</span>
+        <input type="number" min={1} value={epochs} onChange={e => setEpochs(parseInt(e.target.value, 10))} className={`${inputClass} w-16 flex-none`} />
+        <button className={buttonClass} disabled={props.loadedSteps === 0 || !(epochs >= 1)} onClick={() => props.onPretrain(epochs)}>PRETRAIN</button>
+      </div>
+      <div className="flex gap-2 pt-2 border-t border-white/5">
+        <button className={buttonClass} disabled={total === 0} onClick={props.onExport}>EXPORT</button>
+        <button className={buttonClass} disabled={total === 0} onClick={props.onClear}>CLEAR</button>
+      </div>
+      {props.message && <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{props.message}</p>}
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default DemoPanel;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { EvaluationReport, LevelEvaluation } from '../types';
+import { parseLevelList } from '../ai/evaluation';
+
+interface EvaluationPanelProps {
+  agentLabel: string; // What RUN evaluates: the watched planner or the selected Q-value agent
+  defaultLevels: string; // Initial level list, e.g. "1-3" for the pack's hand-made levels
+  report: EvaluationReport | null;
+  progress: string | null; // Set while an evaluation runs
+  error: string | null;
+  onRun: (levels: number[], episodes: number, seed: number) => void;
+  onExport: () => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 flex-1 min-w-0">
+    <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const Row: React.FC<{ row: LevelEvaluation }> = ({ row }) => (
+  <tr className={row.level === null ? 'border-t border-white/10 text-white' : 'text-white/70'}>
+    <td className="py-1 pr-1 truncate max-w-[72px]" title={row.name}>{row.level === null ? 'ALL' : `L${row.level}`}</td>
+    <td className="py-1 text-right">{row.meanScore.toFixed(1)}</td>
+    <td className="py-1 text-right">{row.medianScore}</td>
+    <td className="py-1 text-right">{row.stdScore.toFixed(1)}</td>
+    <td className="py-1 text-right text-emerald-300">{row.portalRate.toFixed(0)}%</td>
+    <td className="py-1 text-right">{row.outcomes.WALL}/{row.outcomes.BODY}/{row.outcomes.TIMEOUT}</td>
+    <td className="py-1 text-right">{row.stepsPerFood === null ? '—' : row.stepsPerFood.toFixed(1)}</td>
+  </tr>
+);
+
+/**
+ * Greedy evaluation on a fixed seed set per level, apart from training: the agent is frozen for
+ * the run, so reports from the same seed are comparable across agents and over time.
+ */
+const EvaluationPanel: React.FC<EvaluationPanelProps> = props => {
+  const [levels, setLevels] = useState(props.defaultLevels);
+  const [episodes, setEpisodes] = useState(20);
+  const [seed, setSeed] = useState(1);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+  const report = props.report;
+
+  const run = () => {
+    try {
+      const list = parseLevelList(levels);
+      setInputError(null);
+      props.onRun(list, episodes, seed);
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Evaluation</span>
+        <span className="text-xs font-black text-white mono truncate max-w-[180px]">{props.progress ?? props.agentLabel}</span>
+      </div>
+      <div className="flex gap-2">
+        <Field label="levels"><input value={levels} onChange={e => setLevels(e.target.value)} className={inputClass} /></Field>
+        <Field label="episodes"><input type="number" min={1} value={episodes} onChange={e => setEpisodes(parseInt(e.target.value, 10))} className={inputClass} /></Field>
+        <Field label="seed"><input type="number" value={seed} onChange={e => setSeed(parseInt(e.target.value, 10))} className={inputClass} /></Field>
+      </div>
+      {report && (
+        <div className="space-y-1">
+          <div className="text-[9px] font-black text-white/30 uppercase tracking-widest truncate">
+            {report.agent} · {report.episodesPerLevel} episodes/level · seed {report.seed}
+          </div>
+          <table className="w-full text-[10px] font-black mono">
+            <thead>
+              <tr className="text-[8px] text-white/30 uppercase tracking-widest">
+                <th className="text-left font-black">lvl</th>
+                <th className="text-right font-black">mean</th>
+                <th className="text-right font-black">med</th>
+                <th className="text-right font-black">std</th>
+                <th className="text-right font-black">portal</th>
+                <th className="text-right font-black" title="Deaths: wall / body / timeout">w/b/t</th>
+                <th className="text-right font-black">st/food</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.levels.map(row => <Row key={row.level} row={row} />)}
+              <Row row={report.overall} />
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={props.progress !== null || !(episodes >= 1) || Number.isNaN(seed)} onClick={run}>RUN</button>
+        <button className={buttonClass} disabled={!report} onClick={props.onExport}>EXPORT JSON</button>
+      </div>
+      {(inputError ?? props.error) && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{inputError ?? props.error}</p>}
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+
+export type HumanStatus = 'ready' | 'playing' | 'paused' | 'over';
+
+interface HumanControlsProps {
+  status: HumanStatus;
+  level: number;
+  levelNames: string[];
+  demoCount: number;
+  canSaveDemo: boolean; // A finished run is waiting to be saved
+  message: string | null;
+  error: string | null;
+  onTogglePause: () => void;
+  onRestart: () => void;
+  onLevelChange: (level: number) => void;
+  onSaveDemo: () => void;
+}
+
+const STATUS_LABELS: Record<HumanStatus, string> = {
+  ready: 'PRESS A DIRECTION',
+  playing: 'PLAYING',
+  paused: 'PAUSED',
+  over: 'GAME OVER'
+};
+
+/**
+ * HUMAN mode: status, pause/restart, starting level, and saving finished runs as demonstrations.
+ */
+const HumanControls: React.FC<HumanControlsProps> = props => {
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Player</span>
+        <span className={`text-xs font-black mono ${props.status === 'playing' ? 'text-emerald-400' : 'text-white'}`}>{STATUS_LABELS[props.status]}</span>
+      </div>
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={props.status === 'ready' || props.status === 'over'} onClick={props.onTogglePause}>
+          {props.status === 'paused' ? 'RESUME' : 'PAUSE'}
+        </button>
+        <button className={buttonClass} onClick={props.onRestart}>RESTART</button>
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest w-16">level</span>
+        <select value={props.level} onChange={e => { e.currentTarget.blur(); props.onLevelChange(parseInt(e.target.value, 10)); }} className="w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white">
+          {props.levelNames.map((name, i) => <option key={i} value={i + 1}>{i + 1} · {name}</option>)}
+        </select>
+      </label>
+      <p className="text-[9px] font-black text-white/30 uppercase tracking-widest leading-relaxed">
+        Arrows / WASD to steer · Space or P to pause · R to restart
+      </p>
+      <div className="flex items-center gap-2 pt-2 border-t border-white/5">
+        <button className={buttonClass} disabled={!props.canSaveDemo} onClick={props.onSaveDemo}>SAVE AS DEMO</button>
+        <span className="text-[10px] font-black text-white/40 mono whitespace-nowrap">{props.demoCount} saved</span>
+      </div>
+      {props.message && <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{props.message}</p>}
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default HumanControls;
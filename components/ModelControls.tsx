@@ -0,0 +1,44 @@
+import React, { useRef } from 'react';
+
+interface ModelControlsProps {
+  agentLabel: string;
+  disabledReason: string | null; // Shown instead of the buttons when export/import isn't possible
+  message: string | null;
+  error: string | null;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+/**
+ * Export/import of the active agent as a versioned binary model file.
+ */
+const ModelControls: React.FC<ModelControlsProps> = props => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Model</span>
+        <span className="text-xs font-black text-white mono uppercase">{props.agentLabel}</span>
+      </div>
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={!!props.disabledReason} onClick={props.onExport}>EXPORT MODEL</button>
+        <button className={buttonClass} disabled={!!props.disabledReason} onClick={() => fileInputRef.current?.click()}>IMPORT MODEL</button>
+        <input
+          ref={fileInputRef} type="file" accept=".csnk,application/octet-stream" className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) props.onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {props.disabledReason && <p className="text-[10px] font-black text-white/30 uppercase tracking-widest">{props.disabledReason}</p>}
+      {props.message && <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{props.message}</p>}
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default ModelControls;
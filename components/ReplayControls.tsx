@@ -0,0 +1,92 @@
+import React, { useRef } from 'react';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+interface ReplayControlsProps {
+  loaded: boolean;
+  cursor: number;
+  length: number;
+  playing: boolean;
+  speed: number;
+  seed?: number;
+  startLevel?: number;
+  finalScore?: number;
+  lastReward: number | null;
+  diverged: boolean;
+  error: string | null;
+  onTogglePlay: () => void;
+  onStep: (delta: number) => void;
+  onSeek: (t: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+/**
+ * Transport controls for the replay player: play/pause, single steps, scrubbing and speed.
+ */
+const ReplayControls: React.FC<ReplayControlsProps> = props => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Replay</span>
+        <span className="text-xs font-black text-white mono">{props.cursor} / {props.length}</span>
+      </div>
+
+      {props.loaded ? (
+        <>
+          <input
+            type="range" min={0} max={props.length} value={props.cursor}
+            onChange={e => props.onSeek(parseInt(e.target.value, 10))}
+            className="w-full accent-emerald-500"
+          />
+          <div className="flex gap-2">
+            <button className={buttonClass} disabled={props.cursor === 0} onClick={() => props.onStep(-1)}>◀ STEP</button>
+            <button className={`${buttonClass} ${props.playing ? 'text-emerald-400' : ''}`} onClick={props.onTogglePlay}>
+              {props.playing ? 'PAUSE' : 'PLAY'}
+            </button>
+            <button className={buttonClass} disabled={props.cursor >= props.length} onClick={() => props.onStep(1)}>STEP ▶</button>
+          </div>
+          <div className="flex gap-1">
+            {REPLAY_SPEEDS.map(s => (
+              <button key={s} onClick={() => props.onSpeedChange(s)} className={`flex-1 py-1.5 text-[10px] rounded-lg font-black mono transition-all ${props.speed === s ? 'bg-emerald-600 text-white' : 'text-white/30 hover:bg-white/10'}`}>
+                {s}x
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-[10px] font-black mono text-white/50 uppercase">
+            <span>Seed {props.seed}</span>
+            <span className="text-right">Start L-{props.startLevel}</span>
+            <span>Final score {props.finalScore}</span>
+            <span className="text-right">Reward {props.lastReward === null ? '—' : props.lastReward.toFixed(2)}</span>
+          </div>
+          {props.diverged && (
+            <p className="text-[10px] font-black text-amber-400 uppercase tracking-widest">Replay diverged from the current engine</p>
+          )}
+        </>
+      ) : (
+        <p className="text-[10px] font-black text-white/30 uppercase tracking-widest">Capture an episode in AI WATCH or import a replay file</p>
+      )}
+
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={!props.loaded} onClick={props.onExport}>EXPORT JSON</button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>IMPORT JSON</button>
+        <input
+          ref={fileInputRef} type="file" accept="application/json,.json" className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) props.onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
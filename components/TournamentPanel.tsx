@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Leaderboard, TournamentSetup, TournamentStanding } from '../types';
+import { parseLevelList } from '../ai/evaluation';
+import { isTie, sameSetup } from '../ai/tournament';
+
+interface TournamentPanelProps {
+  board: Leaderboard | null;
+  defaultLevels: string; // Initial level list, e.g. "1-3" for the pack's hand-made levels
+  progress: string | null; // Set while a tournament runs
+  openId: string | null; // Entrant whose best run AI WATCH is showing
+  error: string | null;
+  onRun: (setup: TournamentSetup, includeAuto: boolean) => void;
+  onOpen: (standing: TournamentStanding) => void;
+  onClear: () => void;
+}
+
+const inputClass = 'w-full min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black mono text-white';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 flex-1 min-w-0">
+    <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const describeSetup = (setup: TournamentSetup): string =>
+  `L${setup.levels.join(',')} · ${setup.episodes} ep/level · seed ${setup.seed}`;
+
+/**
+ * Every agent of the run (planners, the live agents and saved checkpoints) on the same episodes,
+ * ranked by mean score with 95% intervals. Clicking a standing watches its best run.
+ */
+const TournamentPanel: React.FC<TournamentPanelProps> = props => {
+  const [levels, setLevels] = useState(props.defaultLevels);
+  const [episodes, setEpisodes] = useState(10);
+  const [seed, setSeed] = useState(1);
+  const [includeAuto, setIncludeAuto] = useState(false);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+  const board = props.board;
+
+  let draft: TournamentSetup | null = null;
+  try {
+    draft = { levels: parseLevelList(levels), episodes, seed };
+  } catch {
+    // Reported when RUN is pressed
+  }
+  const startsOver = !!board && !!draft && !sameSetup(board.setup, draft);
+
+  const run = () => {
+    try {
+      const setup: TournamentSetup = { levels: parseLevelList(levels), episodes, seed };
+      setInputError(null);
+      props.onRun(setup, includeAuto);
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Tournament</span>
+        <span className="text-xs font-black text-white mono">{props.progress ?? (board ? `${board.standings.length} AGENTS` : '—')}</span>
+      </div>
+      {board && (
+        <div className="space-y-1">
+          <div className="text-[9px] font-black text-white/30 uppercase tracking-widest truncate">{describeSetup(board.setup)}</div>
+          {board.standings.map((s, i) => (
+            <button
+              key={s.id}
+              onClick={() => props.onOpen(s)}
+              title={`Watch its best run: score ${s.bestRun.finalScore} from L${s.bestRun.level}`}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md border text-left transition-all ${props.openId === s.id ? 'border-emerald-500/50 bg-emerald-500/10' : 'border-white/5 hover:bg-white/10'}`}
+            >
+              <span className="text-[10px] font-black mono text-white/40 w-6">
+                {i > 0 && isTie(board.standings[i - 1], s) ? '≈' : `#${i + 1}`}
+              </span>
+              <span className="flex-1 min-w-0 text-[10px] font-black text-white/80 truncate">{s.name}</span>
+              <span className="text-[10px] font-black mono text-white">{s.summary.meanScore.toFixed(1)}</span>
+              <span className="text-[9px] font-black mono text-white/40 w-20 text-right">[{s.ci95[0].toFixed(1)}, {s.ci95[1].toFixed(1)}]</span>
+              <span className="text-[9px] font-black mono text-emerald-300 w-9 text-right">{s.summary.portalRate.toFixed(0)}%</span>
+            </button>
+          ))}
+          <p className="text-[9px] font-black text-white/30 uppercase tracking-widest">Mean score · 95% interval · portal rate; ≈ overlaps the one above</p>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Field label="levels"><input value={levels} onChange={e => setLevels(e.target.value)} className={inputClass} /></Field>
+        <Field label="episodes"><input type="number" min={1} value={episodes} onChange={e => setEpisodes(parseInt(e.target.value, 10))} className={inputClass} /></Field>
+        <Field label="seed"><input type="number" value={seed} onChange={e => setSeed(parseInt(e.target.value, 10))} className={inputClass} /></Field>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-widest">
+        <input type="checkbox" checked={includeAuto} onChange={e => setIncludeAuto(e.target.checked)} />
+        include auto checkpoints
+      </label>
+      {startsOver && (
+        <p className="text-[9px] font-black text-amber-400/80 uppercase tracking-widest">A different setup starts a new leaderboard</p>
+      )}
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={props.progress !== null || !(episodes >= 1) || Number.isNaN(seed)} onClick={run}>RUN</button>
+        <button className={buttonClass} disabled={!board || props.progress !== null} onClick={props.onClear}>CLEAR</button>
+      </div>
+      {(inputError ?? props.error) && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{inputError ?? props.error}</p>}
+    </div>
+  );
+};
+
+export default TournamentPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+
+export const STEPS_PER_TICK_OPTIONS = [100, 1000, 7500, 25000, 100000];
+
+interface TrainingControlsProps {
+  running: boolean;
+  stepsPerTick: number;
+  stepsPerSecond: number;
+  error: string | null;
+  onToggleRun: () => void;
+  onStep: () => void;
+  onStepsPerTickChange: (stepsPerTick: number) => void;
+}
+
+/**
+ * Controls for the background training worker: run/pause, a single step and batch size.
+ */
+const TrainingControls: React.FC<TrainingControlsProps> = props => {
+  const buttonClass = 'flex-1 py-2.5 text-xs rounded-xl font-black bg-white/5 border border-white/10 text-white/70 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30';
+
+  return (
+    <div className="bg-white/5 p-6 rounded-2xl border border-white/5 space-y-4 shadow-inner">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-black text-white/30 uppercase tracking-[0.2em]">Worker</span>
+        <span className="text-xs font-black text-white mono">{props.running ? `${props.stepsPerSecond.toLocaleString()} steps/s` : 'PAUSED'}</span>
+      </div>
+      <div className="flex gap-2">
+        <button className={`${buttonClass} ${props.running ? 'text-emerald-400' : ''}`} onClick={props.onToggleRun}>
+          {props.running ? 'PAUSE' : 'START'}
+        </button>
+        <button className={buttonClass} disabled={props.running} onClick={props.onStep}>STEP ▶</button>
+      </div>
+      <div className="space-y-2">
+        <span className="text-[10px] font-black text-white/30 uppercase tracking-widest">Steps per tick</span>
+        <div className="flex gap-1">
+          {STEPS_PER_TICK_OPTIONS.map(n => (
+            <button key={n} onClick={() => props.onStepsPerTickChange(n)} className={`flex-1 py-1.5 text-[10px] rounded-lg font-black mono transition-all ${props.stepsPerTick === n ? 'bg-emerald-600 text-white' : 'text-white/30 hover:bg-white/10'}`}>
+              {n >= 1000 ? `${n / 1000}K` : n}
+            </button>
+          ))}
+        </div>
+      </div>
+      {props.error && <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{props.error}</p>}
+    </div>
+  );
+};
+
+export default TrainingControls;
@@ -0,0 +1,164 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { Random } from '../game/Random';
+import { RewardFunction, DEFAULT_REWARD_FUNCTION } from '../game/rewards';
+import { ActionMode, Direction, GameConfig, LevelPack, Point, StepResult } from '../types';
+import { ObservationEncoder, heading } from './encoders';
+import { DiscreteSpace, Space } from './spaces';
+
+export const ACTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+export const RELATIVE_ACTIONS = ['LEFT', 'STRAIGHT', 'RIGHT'];
+
+const ACTION_SPACES: Record<ActionMode, DiscreteSpace> = {
+  absolute: { type: 'discrete', n: ACTIONS.length, labels: ACTIONS },
+  relative: { type: 'discrete', n: RELATIVE_ACTIONS.length, labels: RELATIVE_ACTIONS }
+};
+
+export const actionCount = (mode: ActionMode): number => ACTION_SPACES[mode].n;
+
+const toDirectionName = (v: Point): Direction => (v.y < 0 ? 'UP' : v.y > 0 ? 'DOWN' : v.x < 0 ? 'LEFT' : 'RIGHT');
+
+const NO_RESULT: StepResult = {
+  alreadyOver: false,
+  died: null,
+  ateFood: false,
+  pickedItem: null,
+  portalOpened: false,
+  enteredPortal: false,
+  scoreDelta: 0,
+  distanceDelta: 0
+};
+
+export interface EnvironmentOptions<O> {
+  encoder: ObservationEncoder<O>;
+  seed?: number; // Seeds the episode seeds handed out by reset() when none is given
+  level?: number; // Starting level of each episode unless reset() overrides it
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+  rewardFunction?: RewardFunction;
+  record?: boolean; // Keep a Replay of every episode on game.replay
+  maxEpisodeSteps?: number; // Truncate episodes after this many steps (on top of the engine's own step budget)
+  actionMode?: ActionMode; // Defaults to the 4 absolute directions
+}
+
+export interface ResetOptions {
+  level?: number;
+}
+
+export interface EnvironmentInfo {
+  result: StepResult; // A copy, unlike SnakeGame.step()'s own result, so it stays valid after the next step
+  score: number;
+  level: number;
+  steps: number;
+}
+
+export interface StepOutput<O> {
+  observation: O;
+  reward: number;
+  done: boolean; // The snake died
+  truncated: boolean; // The episode ran out of steps without dying
+  info: EnvironmentInfo;
+}
+
+/**
+ * Gym-style wrapper around SnakeGame: discrete actions in, encoded observations and
+ * rewards out. The game itself stays reachable on `game` for rendering.
+ */
+export class Environment<O> {
+  game: SnakeGame;
+  encoder: ObservationEncoder<O>;
+  actionMode: ActionMode;
+  rng: Random;
+  level: number;
+  levelPack?: LevelPack;
+  gameConfig?: Partial<GameConfig>;
+  rewardFunction: RewardFunction;
+  record: boolean;
+  maxEpisodeSteps: number;
+  private episodeSteps: number = 0;
+  private episodeOver: boolean = false; // The last step was done or truncated, so step() waits for reset()
+
+  constructor(options: EnvironmentOptions<O>) {
+    this.encoder = options.encoder;
+    this.rng = new Random(options.seed);
+    this.level = options.level ?? 1;
+    this.levelPack = options.levelPack;
+    this.gameConfig = options.gameConfig;
+    this.rewardFunction = options.rewardFunction || DEFAULT_REWARD_FUNCTION;
+    this.record = !!options.record;
+    this.maxEpisodeSteps = options.maxEpisodeSteps ?? Infinity;
+    this.actionMode = options.actionMode ?? 'absolute';
+    this.game = this.createGame(this.rng.nextSeed(), this.level);
+  }
+
+  get actionSpace(): DiscreteSpace {
+    return ACTION_SPACES[this.actionMode];
+  }
+
+  get observationSpace(): Space {
+    return this.encoder.space(this.game);
+  }
+
+  /** The direction an action moves the snake in right now. */
+  toDirection(action: number): Direction {
+    if (this.actionMode === 'absolute') return ACTIONS[action];
+    const h = heading(this.game);
+    // Screen coordinates (y down): a left turn maps (x, y) to (y, -x)
+    if (action === 0) return toDirectionName({ x: h.y, y: -h.x });
+    if (action === 2) return toDirectionName({ x: -h.y, y: h.x });
+    return toDirectionName(h);
+  }
+
+  /**
+   * Mask over the action space: false for moves that die on the spot. If every move
+   * is deadly they are all reported legal, so an agent always has something to pick.
+   */
+  legalActions(): boolean[] {
+    const mask = new Array<boolean>(this.actionSpace.n);
+    let any = false;
+    for (let a = 0; a < mask.length; a++) {
+      mask[a] = !this.game.isDeadlyMove(this.toDirection(a));
+      any = any || mask[a];
+    }
+    return any ? mask : mask.fill(true);
+  }
+
+  private createGame(seed: number, level: number): SnakeGame {
+    return new SnakeGame(level, { seed, record: this.record, levelPack: this.levelPack, config: this.gameConfig });
+  }
+
+  /** Starts a new episode. Without a seed the next one is drawn from the environment's own RNG. */
+  reset(seed?: number, options: ResetOptions = {}): { observation: O; info: EnvironmentInfo } {
+    this.game = this.createGame(seed ?? this.rng.nextSeed(), options.level ?? this.level);
+    this.episodeSteps = 0;
+    this.episodeOver = false;
+    return { observation: this.observe(), info: this.getInfo(NO_RESULT) };
+  }
+
+  /** Throws once the episode is done or truncated; reset() starts the next one. */
+  step(action: number): StepOutput<O> {
+    const n = this.actionSpace.n;
+    if (!Number.isInteger(action) || action < 0 || action >= n) throw new Error(`Invalid action ${action}; expected an integer in [0, ${n})`);
+    if (this.episodeOver || this.game.state.isGameOver) throw new Error('The episode is over; call reset() before stepping again');
+    const result = this.game.step(this.toDirection(action));
+    this.episodeSteps++;
+    const done = result.died === 'WALL' || result.died === 'BODY';
+    const truncated = result.died === 'TIMEOUT' || (!this.game.state.isGameOver && this.episodeSteps >= this.maxEpisodeSteps);
+    this.episodeOver = done || truncated;
+    return {
+      observation: this.observe(),
+      reward: this.rewardFunction(result),
+      done,
+      truncated,
+      info: this.getInfo(result)
+    };
+  }
+
+  observe(): O {
+    return this.encoder.encode(this.game);
+  }
+
+  private getInfo(result: StepResult): EnvironmentInfo {
+    const s = this.game.state;
+    return { result: { ...result }, score: s.score, level: s.level, steps: this.episodeSteps };
+  }
+}
@@ -0,0 +1,125 @@
+import { Random } from '../game/Random';
+import { Environment, EnvironmentOptions } from './Environment';
+
+export interface VecEnvOptions<O> extends Omit<EnvironmentOptions<O>, 'seed'> {
+  numEnvs: number;
+  seed?: number; // Seeds every sub-environment, so the whole batch is reproducible
+}
+
+export interface EpisodeStats {
+  episodes: number;
+  lastScore: number;
+  lastLength: number;
+  lastReturn: number;
+  bestScore: number;
+  meanScore: number; // Over all finished episodes
+}
+
+/**
+ * Result buffers are reused between calls to step(); copy anything you need to keep.
+ * `finalObservations[i]` holds the last observation of an episode that ended this step,
+ * since `observations[i]` already belongs to the next one.
+ */
+export interface VecStepOutput<O> {
+  observations: O[];
+  rewards: Float32Array;
+  dones: Uint8Array;
+  truncateds: Uint8Array;
+  finalObservations: (O | null)[];
+}
+
+const createEpisodeStats = (): EpisodeStats => ({
+  episodes: 0, lastScore: 0, lastLength: 0, lastReturn: 0, bestScore: 0, meanScore: 0
+});
+
+/**
+ * Runs N environments in lockstep: one batched action in, one batched result out.
+ * Finished episodes are reset automatically and summarised in `stats`.
+ */
+export class VecEnv<O> {
+  envs: Environment<O>[];
+  stats: EpisodeStats[];
+  private rng: Random;
+  private episodeReturns: Float64Array;
+  private output: VecStepOutput<O>;
+
+  constructor(options: VecEnvOptions<O>) {
+    const { numEnvs, seed, ...envOptions } = options;
+    if (!Number.isInteger(numEnvs) || numEnvs < 1) throw new Error(`numEnvs must be a positive integer, got ${numEnvs}`);
+    this.rng = new Random(seed);
+    this.envs = Array.from({ length: numEnvs }, () => new Environment<O>({ ...envOptions, seed: this.rng.nextSeed() }));
+    this.stats = this.envs.map(createEpisodeStats);
+    this.episodeReturns = new Float64Array(numEnvs);
+    this.output = {
+      observations: this.envs.map(e => e.observe()),
+      rewards: new Float32Array(numEnvs),
+      dones: new Uint8Array(numEnvs),
+      truncateds: new Uint8Array(numEnvs),
+      finalObservations: new Array(numEnvs).fill(null)
+    };
+  }
+
+  get numEnvs(): number {
+    return this.envs.length;
+  }
+
+  get actionSpace() {
+    return this.envs[0].actionSpace;
+  }
+
+  get observationSpace() {
+    return this.envs[0].observationSpace;
+  }
+
+  /** Resets every environment. With a seed, episode seeds are re-derived from it. */
+  reset(seed?: number): O[] {
+    if (seed !== undefined) this.rng = new Random(seed);
+    this.envs.forEach((env, i) => {
+      this.output.observations[i] = env.reset(this.rng.nextSeed()).observation;
+      this.output.finalObservations[i] = null;
+      this.episodeReturns[i] = 0;
+    });
+    return this.output.observations;
+  }
+
+  step(actions: ArrayLike<number>): VecStepOutput<O> {
+    if (actions.length !== this.envs.length) {
+      throw new Error(`Expected ${this.envs.length} actions, got ${actions.length}`);
+    }
+    const out = this.output;
+    for (let i = 0; i < this.envs.length; i++) {
+      const env = this.envs[i];
+      const r = env.step(actions[i]);
+      out.rewards[i] = r.reward;
+      out.dones[i] = r.done ? 1 : 0;
+      out.truncateds[i] = r.truncated ? 1 : 0;
+      this.episodeReturns[i] += r.reward;
+
+      if (r.done || r.truncated) {
+        this.recordEpisode(i, r.info.score, r.info.steps);
+        out.finalObservations[i] = r.observation;
+        out.observations[i] = env.reset().observation;
+      } else {
+        out.finalObservations[i] = null;
+        out.observations[i] = r.observation;
+      }
+    }
+    return out;
+  }
+
+  private recordEpisode(i: number, score: number, length: number) {
+    const s = this.stats[i];
+    s.meanScore = (s.meanScore * s.episodes + score) / (s.episodes + 1);
+    s.episodes++;
+    s.lastScore = score;
+    s.lastLength = length;
+    s.lastReturn = this.episodeReturns[i];
+    s.bestScore = Math.max(s.bestScore, score);
+    this.episodeReturns[i] = 0;
+  }
+
+  /** Episodes finished across all environments. */
+  get totalEpisodes(): number {
+    return this.stats.reduce((sum, s) => sum + s.episodes, 0);
+  }
+}
@@ -0,0 +1,328 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { directionVector } from '../game/levels';
+import { ItemType, Point, TabularEncoding } from '../types';
+import { Space, TextSpace } from './spaces';
+
+/**
+ * Turns the current game state into an agent observation. `id` names the encoding
+ * and must change whenever the output of `encode` does.
+ */
+export interface ObservationEncoder<O> {
+  id: string;
+  space(game: SnakeGame): Space;
+  encode(game: SnakeGame): O;
+}
+
+/** Direction of the last move as a unit vector; UP for a one-segment snake. */
+export const heading = (game: SnakeGame): Point => {
+  const [head, neck] = game.state.snake;
+  if (!neck) return directionVector('UP');
+  const dx = head.x - neck.x;
+  const dy = head.y - neck.y;
+  // A wrap-around move makes the raw difference span the board
+  return { x: Math.sign(dx) * (Math.abs(dx) > 1 ? -1 : 1), y: Math.sign(dy) * (Math.abs(dy) > 1 ? -1 : 1) };
+};
+
+/** Anything the head would die on: off-board (solid borders), wall or body. */
+const isBlocking = (game: SnakeGame, x: number, y: number): boolean => {
+  const p = game.wrapPoint(x, y);
+  return !p || game.isPointWall(p.x, p.y) || game.isSnakeAt(p.x, p.y);
+};
+
+// Shortest signed offsets from `from` to `to`, across the edges on wrap-around boards
+const offset = (game: SnakeGame, from: Point, to: Point): Point => {
+  const wrap = (d: number, size: number) => (game.config.wrapAround && Math.abs(d) > size / 2 ? d - Math.sign(d) * size : d);
+  return { x: wrap(to.x - from.x, game.width), y: wrap(to.y - from.y, game.height) };
+};
+
+const sign = (d: number, less: string, more: string): string => (d < 0 ? less : d > 0 ? more : 'C');
+
+/**
+ * Compact string key for tabular learners: target direction, 1- and 2-step
+ * blocking in each direction, and heading. 3 * 3 * 2^8 * 5 possible states.
+ */
+export const TABULAR_ENCODER: ObservationEncoder<string> = {
+  id: 'tabular-v3', // v2: heading letter follows wrap-around moves; v3: so does the target direction
+  space: () => ({ type: 'text', length: 11, charset: 'LRCUDN01' }),
+  encode: game => {
+    const head = game.state.snake[0];
+    const snake = game.state.snake;
+    const target = game.getTarget();
+
+    // 1. Target relative position, the short way round on wrap-around boards
+    const toTarget = offset(game, head, target);
+    const tX = sign(toTarget.x, "L", "R");
+    const tY = sign(toTarget.y, "U", "D");
+
+    // 2. Obstacle Sensing (1-step and 2-step lookahead)
+    const bit = (x: number, y: number) => (isBlocking(game, x, y) ? "1" : "0");
+    const near = bit(head.x, head.y - 1) + bit(head.x, head.y + 1) + bit(head.x - 1, head.y) + bit(head.x + 1, head.y);
+    const far = bit(head.x, head.y - 2) + bit(head.x, head.y + 2) + bit(head.x - 2, head.y) + bit(head.x + 2, head.y);
+
+    let dir = "N";
+    if (snake.length > 1) {
+      const h = heading(game);
+      dir = h.x > 0 ? "R" : h.x < 0 ? "L" : h.y > 0 ? "D" : "U";
+    }
+
+    return `${tX}${tY}${near}${far}${dir}`;
+  }
+};
+
+const ITEM_CODES: Record<ItemType, string> = {
+  [ItemType.FOOD]: 'F',
+  [ItemType.GOLD]: 'G',
+  [ItemType.SCISSORS]: 'S',
+  [ItemType.ICE]: 'I'
+};
+
+// Reused flood-fill buffers; a cell belongs to the current fill when its mark equals the fill's stamp
+let fillMarks = new Uint32Array(0);
+let fillQueue = new Int32Array(0);
+let fillStamp = 0;
+const FILL_DX = [0, 0, -1, 1];
+const FILL_DY = [-1, 1, 0, 0];
+
+interface HeadRegions {
+  areas: number[]; // Free cells reachable through each neighbour of the head (UP, DOWN, LEFT, RIGHT), counted up to twice the snake's length; 0 if blocked
+  tailReachable: boolean; // Some region borders the tail, which moves away as the snake does
+}
+
+/** Flood fills the free board from each neighbour of the head, visiting every cell at most once. */
+const headRegions = (game: SnakeGame): HeadRegions => {
+  const { width, height } = game;
+  if (fillMarks.length !== width * height) {
+    fillMarks = new Uint32Array(width * height);
+    fillQueue = new Int32Array(width * height);
+  }
+  const wrap = game.config.wrapAround;
+  const snake = game.state.snake;
+  const head = snake[0];
+  const tail = snake[snake.length - 1];
+  const firstStamp = fillStamp + 1;
+  const areaByStamp: number[] = [];
+  const areas: number[] = [];
+  let tailReachable = false;
+
+  for (const dir of ['UP', 'DOWN', 'LEFT', 'RIGHT'] as const) {
+    const d = directionVector(dir);
+    const start = game.wrapPoint(head.x + d.x, head.y + d.y);
+    if (!start || isBlocking(game, start.x, start.y)) { areas.push(0); continue; }
+    const startIdx = start.y * width + start.x;
+    const mark = fillMarks[startIdx];
+    if (mark >= firstStamp) { areas.push(areaByStamp[mark - firstStamp]); continue; }
+
+    const stamp = ++fillStamp;
+    fillMarks[startIdx] = stamp;
+    fillQueue[0] = startIdx;
+    let size = 1;
+    // Buckets stop at twice the length, so once the tail is found there is no need to count further
+    for (let q = 0; q < size && !(tailReachable && size >= 2 * snake.length); q++) {
+      const x = fillQueue[q] % width;
+      const y = (fillQueue[q] - x) / width;
+      for (let k = 0; k < 4; k++) {
+        let nx = x + FILL_DX[k];
+        let ny = y + FILL_DY[k];
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
+          if (!wrap) continue;
+          nx = (nx + width) % width;
+          ny = (ny + height) % height;
+        }
+        if (nx === tail.x && ny === tail.y) tailReachable = true;
+        const idx = ny * width + nx;
+        if (fillMarks[idx] === stamp || game.isPointWall(nx, ny) || game.isSnakeAt(nx, ny)) continue;
+        fillMarks[idx] = stamp;
+        fillQueue[size++] = idx;
+      }
+    }
+    areaByStamp[stamp - firstStamp] = size;
+    areas.push(size);
+  }
+  return { areas, tailReachable };
+};
+
+/** Optional parts of a tabular state, appended after the TABULAR_ENCODER string. */
+interface TabularFeature {
+  id: string;
+  length: number;
+  charset: string;
+  encode(game: SnakeGame, regions: () => HeadRegions): string;
+}
+
+const TABULAR_FEATURES: Record<Exclude<TabularEncoding, 'basic' | 'full'>, TabularFeature> = {
+  // Nearest special item's type and direction, whether the target is the portal, and ICE slowdown
+  items: {
+    id: 'items-v2', // v2: distance and direction across wrap-around edges
+    length: 5,
+    charset: 'NFGSILRCUDP-',
+    encode: game => {
+      const { snake, specialItems, portalOpen, slowEffectSteps } = game.state;
+      const head = snake[0];
+      let nearest = specialItems[0];
+      specialItems.forEach(item => { if (game.distance(head, item.point) < game.distance(head, nearest.point)) nearest = item; });
+      const d = nearest ? offset(game, head, nearest.point) : null;
+      const item = nearest ? ITEM_CODES[nearest.type] + sign(d.x, 'L', 'R') + sign(d.y, 'U', 'D') : 'NCC';
+      return `${item}${portalOpen ? 'P' : 'F'}${slowEffectSteps > 0 ? 'I' : '-'}`;
+    }
+  },
+  // Free area behind each move, bucketed against the snake's length: 0 blocked, 1 too small to fit the body, 2 tight, 3 roomy
+  space: {
+    id: 'space-v1',
+    length: 4,
+    charset: '0123',
+    encode: (game, regions) => {
+      const length = game.state.snake.length;
+      return regions().areas.map(a => (a === 0 ? '0' : a < length ? '1' : a < 2 * length ? '2' : '3')).join('');
+    }
+  },
+  // Tail direction, whether any free region reaches it, and a coarse length bucket (<6, <12, <24, longer)
+  tail: {
+    id: 'tail-v2', // v2: direction across wrap-around edges
+    length: 4,
+    charset: 'LRCUDT-0123',
+    encode: (game, regions) => {
+      const snake = game.state.snake;
+      const head = snake[0];
+      const tail = snake[snake.length - 1];
+      const bucket = snake.length < 6 ? '0' : snake.length < 12 ? '1' : snake.length < 24 ? '2' : '3';
+      const d = offset(game, head, tail);
+      return sign(d.x, 'L', 'R') + sign(d.y, 'U', 'D') + (regions().tailReachable ? 'T' : '-') + bucket;
+    }
+  }
+};
+
+/**
+ * TABULAR_ENCODER plus the given features. The id lists every part's version
+ * (e.g. "tabular-v3+items-v2"), so changing any one of them starts a new Q-table.
+ */
+export const createTabularEncoder = (features: (keyof typeof TABULAR_FEATURES)[]): ObservationEncoder<string> => {
+  const parts = features.map(f => TABULAR_FEATURES[f]);
+  return {
+    id: [TABULAR_ENCODER.id, ...parts.map(p => p.id)].join('+'),
+    space: game => {
+      const base = TABULAR_ENCODER.space(game) as TextSpace;
+      return {
+        type: 'text',
+        length: parts.reduce((sum, p) => sum + p.length, base.length),
+        charset: [...new Set(base.charset + parts.map(p => p.charset).join(''))].join('')
+      };
+    },
+    encode: game => {
+      // The flood fill is shared by the features that need it and skipped when none do
+      let cached: HeadRegions | null = null;
+      const regions = () => (cached ??= headRegions(game));
+      return parts.reduce((state, p) => state + p.encode(game, regions), TABULAR_ENCODER.encode(game));
+    }
+  };
+};
+
+export const TABULAR_ENCODERS: Record<TabularEncoding, ObservationEncoder<string>> = {
+  basic: TABULAR_ENCODER,
+  items: createTabularEncoder(['items']),
+  space: createTabularEncoder(['space']),
+  tail: createTabularEncoder(['tail']),
+  full: createTabularEncoder(['items', 'space', 'tail'])
+};
+
+/** The TABULAR_ENCODERS entry with this id, if any. */
+export const tabularEncodingById = (id: string): TabularEncoding | undefined =>
+  (Object.keys(TABULAR_ENCODERS) as TabularEncoding[]).find(name => TABULAR_ENCODERS[name].id === id);
+
+export const RAY_VISION_SIZE = 8 * 4 + 4;
+
+/** 8 rays x (wall, body, target, item) as inverse distances, plus a one-hot heading (U/D/L/R). */
+export const RAY_VISION_ENCODER: ObservationEncoder<Float32Array> = {
+  id: 'rays-v1',
+  space: () => ({ type: 'box', shape: [RAY_VISION_SIZE], low: 0, high: 1 }),
+  encode: game => {
+    const out = new Float32Array(RAY_VISION_SIZE);
+    let i = 0;
+    for (const v of game.getVisionExtended()) {
+      out[i++] = v.wallFound ? 1 / v.dist : 0;
+      out[i++] = v.bodyFound ? 1 / v.dist : 0;
+      out[i++] = v.foodFound ? 1 : 0;
+      out[i++] = v.itemFound && v.itemDist ? 1 / v.itemDist : 0;
+    }
+    const snake = game.state.snake;
+    if (snake.length > 1) {
+      const h = heading(game);
+      if (h.y < 0) out[i] = 1;
+      else if (h.y > 0) out[i + 1] = 1;
+      else if (h.x < 0) out[i + 2] = 1;
+      else if (h.x > 0) out[i + 3] = 1;
+    }
+    return out;
+  }
+};
+
+// Channels of the full-grid tensor
+export const GRID_CHANNELS = ['wall', 'body', 'head', 'food', 'portal', 'item'] as const;
+
+/** Whole board as a [channels, height, width] 0/1 tensor. */
+export const GRID_ENCODER: ObservationEncoder<Float32Array> = {
+  id: 'grid-v1',
+  space: game => ({ type: 'box', shape: [GRID_CHANNELS.length, game.height, game.width], low: 0, high: 1 }),
+  encode: game => {
+    const { width, height, state } = game;
+    const plane = width * height;
+    const out = new Float32Array(GRID_CHANNELS.length * plane);
+    const set = (channel: number, p: Point) => { out[channel * plane + p.y * width + p.x] = 1; };
+
+    state.walls.forEach(w => set(0, w));
+    state.snake.forEach(p => set(1, p));
+    set(2, state.snake[0]);
+    set(3, state.food);
+    if (state.portalOpen && state.portalPoint) set(4, state.portalPoint);
+    state.specialItems.forEach(i => set(5, i.point));
+    return out;
+  }
+};
+
+// Channels of the egocentric window
+export const LOCAL_CHANNELS = ['blocked', 'target', 'item'] as const;
+
+/**
+ * Square window centred on the head and rotated so the snake always faces up.
+ * Cells beyond a solid border count as blocked.
+ */
+export const createLocalWindowEncoder = (size: number = 7): ObservationEncoder<Float32Array> => {
+  if (size < 3 || size % 2 === 0) throw new Error(`Local window size must be odd and >= 3, got ${size}`);
+  const c = (size - 1) / 2;
+  return {
+    id: `local${size}-v1`,
+    space: () => ({ type: 'box', shape: [LOCAL_CHANNELS.length, size, size], low: 0, high: 1 }),
+    encode: game => {
+      const plane = size * size;
+      const out = new Float32Array(LOCAL_CHANNELS.length * plane);
+      const head = game.state.snake[0];
+      const f = heading(game);
+      const r = { x: -f.y, y: f.x }; // Right-hand side of the heading
+      const target = game.getTarget();
+
+      for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+          const ahead = c - row;
+          const right = col - c;
+          const p = game.wrapPoint(head.x + right * r.x + ahead * f.x, head.y + right * r.y + ahead * f.y);
+          const idx = row * size + col;
+          if (!p) { out[idx] = 1; continue; }
+          if (row !== c || col !== c) {
+            if (isBlocking(game, p.x, p.y)) out[idx] = 1;
+          }
+          if (p.x === target.x && p.y === target.y) out[plane + idx] = 1;
+          if (game.state.specialItems.some(i => i.point.x === p.x && i.point.y === p.y)) out[2 * plane + idx] = 1;
+        }
+      }
+      return out;
+    }
+  };
+};
+
+export const LOCAL_WINDOW_ENCODER = createLocalWindowEncoder(7);
+
+export const OBSERVATION_ENCODERS = {
+  tabular: TABULAR_ENCODER,
+  rays: RAY_VISION_ENCODER,
+  grid: GRID_ENCODER,
+  local: LOCAL_WINDOW_ENCODER
+};
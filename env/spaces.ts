@@ -0,0 +1,32 @@
+/**
+ * Declarative descriptions of what an Environment accepts and returns,
+ * so agents can size their networks/tables without poking at the game.
+ */
+export interface DiscreteSpace {
+  type: 'discrete';
+  n: number;
+  labels?: string[];
+}
+
+export interface BoxSpace {
+  type: 'box';
+  shape: number[]; // Row-major, e.g. [channels, height, width]
+  low: number;
+  high: number;
+}
+
+export interface TextSpace {
+  type: 'text';
+  length: number;
+  charset: string;
+}
+
+export type Space = DiscreteSpace | BoxSpace | TextSpace;
+
+export const spaceSize = (space: Space): number => {
+  switch (space.type) {
+    case 'discrete': return space.n;
+    case 'box': return space.shape.reduce((a, b) => a * b, 1);
+    case 'text': return space.length;
+  }
+};
@@ -0,0 +1,301 @@
+import { ArenaDeathCause, ArenaSnake, ArenaState, Direction, GameConfig, ItemType, LevelDefinition, LevelPack, Point, SpecialItem, StepResult } from '../types';
+import { Random } from './Random';
+import { SnakeGame } from './SnakeGame';
+import { directionVector, getPackLevel } from './levels';
+import { getDefaultLevelPack } from './defaultLevels';
+import { resolveGameConfig } from './gameConfig';
+
+export const MIN_ARENA_SNAKES = 2;
+export const MAX_ARENA_SNAKES = 4;
+export const DEFAULT_ARENA_MAX_STEPS = 2000;
+
+export interface ArenaGameOptions {
+  seed?: number; // Omit for a random seed; the chosen one is exposed as `seed`
+  level?: number; // Pack level whose walls and items the arena plays on (default 1); its spawn point is not used
+  levelPack?: LevelPack; // Defaults to the built-in pack for the board size
+  config?: Partial<GameConfig>; // Same rule constants as SnakeGame; the step budget applies per snake
+  maxSteps?: number; // The match ends here even with snakes still alive
+}
+
+// Where each snake starts, as a fraction of the board, and which way it faces: opposite corners first
+const SPAWNS: { x: number; y: number; direction: Direction }[] = [
+  { x: 0.25, y: 0.25, direction: 'RIGHT' },
+  { x: 0.75, y: 0.75, direction: 'LEFT' },
+  { x: 0.75, y: 0.25, direction: 'LEFT' },
+  { x: 0.25, y: 0.75, direction: 'RIGHT' }
+];
+
+const EMPTY_STEP_RESULT: StepResult = {
+  alreadyOver: false,
+  died: null,
+  ateFood: false,
+  pickedItem: null,
+  portalOpened: false,
+  enteredPortal: false,
+  scoreDelta: 0,
+  distanceDelta: 0
+};
+
+/**
+ * Two to four snakes on one board, competing for the same food and special items. There are no
+ * portals or levels to advance through: the match runs until every snake has died or `maxSteps`.
+ * Agents written for SnakeGame play through viewFor(), which shows one snake the board with its
+ * rivals as walls.
+ */
+export class ArenaGame {
+  state: ArenaState;
+  readonly seed: number;
+  readonly config: GameConfig;
+  readonly width: number;
+  readonly height: number;
+  readonly levelPack: LevelPack;
+  readonly levelDef: LevelDefinition;
+  readonly maxSteps: number;
+  // All randomness (food and item spawns) goes through this, so a seed replays the same match for the same moves
+  private rng: Random;
+  private wallMap: Uint8Array; // Row-major
+  private views: SnakeGame[] = [];
+
+  constructor(snakeCount: number, options: ArenaGameOptions = {}) {
+    if (!Number.isInteger(snakeCount) || snakeCount < MIN_ARENA_SNAKES || snakeCount > MAX_ARENA_SNAKES) {
+      throw new Error(`An arena holds ${MIN_ARENA_SNAKES} to ${MAX_ARENA_SNAKES} snakes, got ${snakeCount}`);
+    }
+    this.config = resolveGameConfig(options.config);
+    this.width = this.config.width;
+    this.height = this.config.height;
+    this.rng = new Random(options.seed);
+    this.seed = this.rng.seed;
+    this.maxSteps = options.maxSteps ?? DEFAULT_ARENA_MAX_STEPS;
+    this.levelPack = options.levelPack || getDefaultLevelPack(this.width, this.height);
+    const level = options.level ?? 1;
+    this.levelDef = getPackLevel(this.levelPack, level, this.config.startLength);
+    if (this.levelDef.width !== this.width || this.levelDef.height !== this.height) {
+      throw new Error(`Level "${this.levelDef.name}" is ${this.levelDef.width}x${this.levelDef.height} but the board is ${this.width}x${this.height}`);
+    }
+    this.wallMap = new Uint8Array(this.width * this.height);
+    this.levelDef.walls.forEach(w => {
+      if (w.x >= 0 && w.x < this.width && w.y >= 0 && w.y < this.height) this.wallMap[w.y * this.width + w.x] = 1;
+    });
+
+    const snakes: ArenaSnake[] = [];
+    for (let i = 0; i < snakeCount; i++) {
+      snakes.push({ body: this.spawn(SPAWNS[i], snakes, snakeCount), score: 0, foodEaten: 0, alive: true, died: null, slowEffectSteps: 0 });
+    }
+    this.state = {
+      snakes,
+      food: { x: 0, y: 0 }, // Placeholder, set below
+      specialItems: [],
+      walls: this.levelDef.walls.map(w => ({ ...w })),
+      level,
+      steps: 0,
+      isOver: false
+    };
+    this.state.food = this.getRandomEmptyPoint();
+  }
+
+  // The free spot nearest the spawn anchor that fits a straight snake with an empty cell ahead of it
+  private spawn(anchor: (typeof SPAWNS)[number], placed: ArenaSnake[], count: number): Point[] {
+    const d = directionVector(anchor.direction);
+    const ax = Math.floor(this.width * anchor.x);
+    const ay = Math.floor(this.height * anchor.y);
+    const blocked = (x: number, y: number) => x < 0 || y < 0 || x >= this.width || y >= this.height
+      || this.wallMap[y * this.width + x] === 1
+      || placed.some(s => s.body.some(p => p.x === x && p.y === y));
+    for (let r = 0; r < Math.max(this.width, this.height); r++) {
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+          const hx = ax + dx;
+          const hy = ay + dy;
+          if (blocked(hx + d.x, hy + d.y)) continue;
+          const body = Array.from({ length: this.config.startLength }, (_, k) => ({ x: hx - d.x * k, y: hy - d.y * k }));
+          if (!body.some(p => blocked(p.x, p.y))) return body;
+        }
+      }
+    }
+    throw new Error(`Level "${this.levelDef.name}" has no room for ${count} snakes`);
+  }
+
+  /** Off-board cells wrapped onto the board in wrap-around mode, else null; as SnakeGame.wrapPoint(). */
+  public wrapPoint(x: number, y: number): Point | null {
+    if (x >= 0 && x < this.width && y >= 0 && y < this.height) return { x, y };
+    if (!this.config.wrapAround) return null;
+    return { x: ((x % this.width) + this.width) % this.width, y: ((y % this.height) + this.height) % this.height };
+  }
+
+  /** Manhattan distance, taking the shorter way round on wrap-around boards. */
+  public distance(a: Point, b: Point): number {
+    let dx = Math.abs(a.x - b.x);
+    let dy = Math.abs(a.y - b.y);
+    if (this.config.wrapAround) {
+      dx = Math.min(dx, this.width - dx);
+      dy = Math.min(dy, this.height - dy);
+    }
+    return dx + dy;
+  }
+
+  // Body segments of the live snakes per cell
+  private occupancy(): Uint8Array {
+    const counts = new Uint8Array(this.width * this.height);
+    this.state.snakes.forEach(s => {
+      if (s.alive) s.body.forEach(p => counts[p.y * this.width + p.x]++);
+    });
+    return counts;
+  }
+
+  private getRandomEmptyPoint(otherItems: SpecialItem[] = []): Point {
+    const occupied = this.occupancy();
+    for (let attempts = 0; attempts < 500; attempts++) {
+      const p = { x: this.rng.int(this.width), y: this.rng.int(this.height) };
+      const cell = p.y * this.width + p.x;
+      if (this.wallMap[cell] || occupied[cell]) continue;
+      if (otherItems.some(i => i.point.x === p.x && i.point.y === p.y)) continue;
+      return p;
+    }
+    return { x: 0, y: 0 };
+  }
+
+  /**
+   * Moves every live snake at once, snake i in `directions[i]` (entries for dead snakes are ignored),
+   * and returns a StepResult per snake so the single-snake reward functions apply unchanged.
+   * Deaths are judged on the board after everyone has moved:
+   * - off a solid border or into a wall: WALL
+   * - into any snake's body, its own included (a tail that moved on is free): BODY
+   * - heads on the same cell: the longest snake lives, equal lengths all die (HEAD, reported as BODY)
+   * Survivors then pick up whatever their heads landed on.
+   */
+  step(directions: Direction[]): StepResult[] {
+    const snakes = this.state.snakes;
+    if (this.state.isOver) return snakes.map(() => ({ ...EMPTY_STEP_RESULT, alreadyOver: true }));
+    this.state.steps++;
+    const results: StepResult[] = snakes.map(s => ({ ...EMPTY_STEP_RESULT, alreadyOver: !s.alive }));
+    const deaths: (ArenaDeathCause | null)[] = snakes.map(() => null);
+    // Food and item points are replaced, never mutated, so holding the reference is safe
+    const food = this.state.food;
+    const distanceBefore = snakes.map(s => this.distance(s.body[0], food));
+
+    // New head of every snake that moves this step
+    const heads: (Point | null)[] = snakes.map((s, i) => {
+      if (!s.alive) return null;
+      if (s.slowEffectSteps > 0) {
+        s.slowEffectSteps--;
+        if (this.state.steps % 2 === 1) return null;
+      }
+      const d = directionVector(directions[i]);
+      const head = this.wrapPoint(s.body[0].x + d.x, s.body[0].y + d.y);
+      if (!head || this.wallMap[head.y * this.width + head.x]) {
+        deaths[i] = 'WALL';
+        return null;
+      }
+      return head;
+    });
+
+    // A snake grows onto the food; otherwise its tail moves on
+    snakes.forEach((s, i) => {
+      const head = heads[i];
+      if (!head) return;
+      s.body.unshift(head);
+      if (head.x !== food.x || head.y !== food.y) s.body.pop();
+    });
+
+    const occupied = new Uint8Array(this.width * this.height);
+    snakes.forEach((s, i) => {
+      if (!s.alive) return;
+      // Heads that just moved are compared with each other below, not counted as body
+      s.body.forEach((p, k) => {
+        if (k > 0 || !heads[i]) occupied[p.y * this.width + p.x]++;
+      });
+    });
+    snakes.forEach((s, i) => {
+      const head = heads[i];
+      if (!head) return;
+      if (occupied[head.y * this.width + head.x] > 0) deaths[i] = 'BODY';
+      const longestRival = snakes.reduce((longest, o, j) => {
+        const h = heads[j];
+        return j !== i && h && h.x === head.x && h.y === head.y ? Math.max(longest, o.body.length) : longest;
+      }, 0);
+      if (!deaths[i] && longestRival >= s.body.length) deaths[i] = 'HEAD';
+    });
+    snakes.forEach((s, i) => {
+      if (s.alive && !deaths[i] && this.state.steps > this.config.baseStepBudget + s.score * this.config.stepBudgetPerScore) deaths[i] = 'TIMEOUT';
+    });
+    snakes.forEach((s, i) => {
+      const cause = deaths[i];
+      if (!cause) return;
+      s.alive = false;
+      s.died = cause;
+      results[i].died = cause === 'HEAD' ? 'BODY' : cause;
+    });
+
+    let foodTaken = false;
+    snakes.forEach((s, i) => {
+      const head = heads[i];
+      if (!head || !s.alive) return;
+      const result = results[i];
+      const scoreBefore = s.score;
+      const itemIndex = this.state.specialItems.findIndex(si => si.point.x === head.x && si.point.y === head.y);
+      if (itemIndex !== -1) {
+        const item = this.state.specialItems.splice(itemIndex, 1)[0];
+        s.score += this.config.scores[item.type];
+        result.pickedItem = item.type;
+        if (item.type === ItemType.SCISSORS) {
+          const reduceAmount = Math.max(0, s.body.length - this.config.scissorsMinLength);
+          s.body.length -= Math.min(this.config.scissorsCut, reduceAmount);
+        } else if (item.type === ItemType.ICE) {
+          s.slowEffectSteps = this.config.iceSlowSteps;
+        }
+      }
+      if (head.x === food.x && head.y === food.y) {
+        s.score += this.config.scores[ItemType.FOOD];
+        s.foodEaten++;
+        result.ateFood = true;
+        foodTaken = true;
+      }
+      result.scoreDelta = s.score - scoreBefore;
+      result.distanceDelta = this.distance(head, food) - distanceBefore[i];
+    });
+    if (foodTaken) this.state.food = this.getRandomEmptyPoint(this.state.specialItems);
+
+    const types = this.levelDef.allowedItems;
+    const { itemSpawnInterval, itemSpawnChance, maxSpecialItems, itemLifetime } = this.config;
+    if (this.state.steps % itemSpawnInterval === 0 && this.rng.next() < itemSpawnChance && this.state.specialItems.length < maxSpecialItems && types.length > 0) {
+      const type = types[this.rng.int(types.length)];
+      const point = this.getRandomEmptyPoint(this.state.specialItems);
+      this.state.specialItems.push({ type, point, expires: this.state.steps + itemLifetime });
+    }
+    this.state.specialItems = this.state.specialItems.filter(item => item.expires > this.state.steps);
+
+    this.state.isOver = snakes.every(s => !s.alive) || this.state.steps >= this.maxSteps;
+    return results;
+  }
+
+  /**
+   * Snake `index`'s view of the arena as a single-snake game: its own body is the snake and every
+   * live rival's body is a wall. The view is reused between calls, so read it before the next one.
+   */
+  viewFor(index: number): SnakeGame {
+    const snake = this.state.snakes[index];
+    if (!snake) throw new Error(`The arena has no snake ${index}`);
+    let view = this.views[index];
+    if (!view) {
+      view = new SnakeGame(this.state.level, { seed: this.seed, config: this.config, levelPack: this.levelPack });
+      this.views[index] = view;
+    }
+    const rivals = this.state.snakes.filter((s, j) => j !== index && s.alive).flatMap(s => s.body);
+    view.loadState({
+      snake: snake.body.map(p => ({ ...p })),
+      food: { ...this.state.food },
+      specialItems: this.state.specialItems.map(item => ({ ...item, point: { ...item.point } })),
+      walls: [...this.state.walls.map(w => ({ ...w })), ...rivals.map(p => ({ ...p }))],
+      score: snake.score,
+      level: this.state.level,
+      itemsCollectedInLevel: 0,
+      isGameOver: !snake.alive,
+      steps: this.state.steps,
+      slowEffectSteps: snake.slowEffectSteps,
+      portalOpen: false,
+      portalPoint: null
+    });
+    return view;
+  }
+}
@@ -0,0 +1,51 @@
+import { Direction } from '../types';
+import { SnakeGame } from './SnakeGame';
+import { directionVector } from './levels';
+
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+const OPPOSITE: Record<Direction, Direction> = { UP: 'DOWN', DOWN: 'UP', LEFT: 'RIGHT', RIGHT: 'LEFT' };
+
+/** Direction of the last move, or null for a one-segment snake. Handles wrap-around moves. */
+const currentHeading = (game: SnakeGame): Direction | null => {
+  const [head, neck] = game.state.snake;
+  if (!neck) return null;
+  return DIRECTIONS.find(d => {
+    const v = directionVector(d);
+    const p = game.wrapPoint(neck.x + v.x, neck.y + v.y);
+    return !!p && p.x === head.x && p.y === head.y;
+  }) ?? null;
+};
+
+/**
+ * Keyboard turns waiting for the next steps, so two quick presses between steps both count.
+ * Each turn is checked against the one queued before it, so no sequence can reverse into the neck.
+ */
+export class InputBuffer {
+  readonly capacity: number;
+  private queue: Direction[] = [];
+
+  constructor(capacity: number = 3) {
+    this.capacity = capacity;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /** Queues a turn. Returns false if it was dropped: a reversal, a repeat, or the buffer is full. */
+  push(direction: Direction, game: SnakeGame): boolean {
+    const last = this.queue.length > 0 ? this.queue[this.queue.length - 1] : currentHeading(game);
+    if (this.queue.length >= this.capacity || direction === last || (last && direction === OPPOSITE[last])) return false;
+    this.queue.push(direction);
+    return true;
+  }
+
+  /** The move for the next step: the oldest queued turn, else straight on. */
+  next(game: SnakeGame): Direction {
+    return this.queue.shift() ?? currentHeading(game) ?? 'UP';
+  }
+
+  clear(): void {
+    this.queue = [];
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Small seeded PRNG (mulberry32). Same seed, same sequence, on every platform.
+ */
+export class Random {
+  readonly seed: number;
+  private s: number;
+
+  constructor(seed: number = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.s = this.seed;
+  }
+
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /** Uniform float in [0, 1). Bound so it can be handed out as a plain `() => number`. */
+  next = (): number => {
+    this.s = (this.s + 0x6D2B79F5) >>> 0;
+    let t = this.s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  /** Uniform integer in [0, max). */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /** Derives a fresh 32-bit seed, e.g. for a child game or the next episode. */
+  nextSeed(): number {
+    return Math.floor(this.next() * 0x100000000) >>> 0;
+  }
+
+  get state(): number {
+    return this.s;
+  }
+
+  set state(value: number) {
+    this.s = value >>> 0;
+  }
+}
@@ -0,0 +1,118 @@
+import { Direction, GameConfig, ItemType, LevelPack, Point, Replay, ReplayEvent } from '../types';
+import { resolveGameConfig } from './gameConfig';
+import { getDefaultLevelPack } from './defaultLevels';
+import { levelPackHash } from './levels';
+
+// v2: records the level pack; v1 replays were always played back on the built-in one
+export const REPLAY_VERSION = 2;
+
+const ACTION_CHARS: Record<Direction, string> = { UP: 'U', DOWN: 'D', LEFT: 'L', RIGHT: 'R' };
+const CHAR_ACTIONS: Record<string, Direction> = { U: 'UP', D: 'DOWN', L: 'LEFT', R: 'RIGHT' };
+
+export const encodeAction = (direction: Direction): string => ACTION_CHARS[direction];
+
+export const decodeAction = (char: string): Direction => {
+  const direction = CHAR_ACTIONS[char];
+  if (!direction) throw new Error(`Invalid replay action "${char}"`);
+  return direction;
+};
+
+export const describeLevelPack = (pack: LevelPack): Replay['levelPack'] => ({ name: pack.name, hash: levelPackHash(pack) });
+
+export const createReplay = (level: number, seed: number, config: GameConfig, levelPack: LevelPack): Replay => ({
+  version: REPLAY_VERSION,
+  level,
+  seed,
+  config,
+  levelPack: describeLevelPack(levelPack),
+  actions: '',
+  rewards: [],
+  events: [],
+  finalScore: 0
+});
+
+/** Throws unless `replay` was recorded on `pack`: the same seed and actions on other walls are a different episode. */
+export const checkReplayPack = (replay: Replay, pack: LevelPack): void => {
+  // Stored version 1 replays have no pack
+  const recorded = replay.levelPack ?? describeLevelPack(getDefaultLevelPack(replay.config.width, replay.config.height));
+  const hash = levelPackHash(pack);
+  if (recorded.hash !== hash) {
+    throw new Error(`Replay was recorded on level pack "${recorded.name}" (${recorded.hash}), not "${pack.name}" (${hash})`);
+  }
+};
+
+/** Index of the first event in `played` that differs from `recorded`, or -1 if they agree as far as `played` goes. */
+export const firstEventMismatch = (recorded: ReplayEvent[], played: ReplayEvent[], from: number = 0): number => {
+  for (let i = from; i < played.length; i++) {
+    const a = played[i];
+    const b = recorded[i];
+    if (!b || a.t !== b.t || a.kind !== b.kind || a.point.x !== b.point.x || a.point.y !== b.point.y) return i;
+  }
+  return -1;
+};
+
+const EVENT_KINDS: ReplayEvent['kind'][] = [...Object.values(ItemType), 'PORTAL'];
+
+const isPoint = (value: unknown): value is Point => {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return Number.isInteger(p.x) && Number.isInteger(p.y);
+};
+
+const isReplayEvent = (value: unknown): value is ReplayEvent => {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return Number.isInteger(e.t) && EVENT_KINDS.includes(e.kind as ReplayEvent['kind']) && isPoint(e.point);
+};
+
+/** Parses and validates an imported replay file. */
+export const parseReplay = (json: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) throw new Error('Replay file is empty');
+  const record = data as Record<string, unknown>;
+  const { version, level, seed, actions, rewards, events, finalScore } = record;
+  if (version !== 1 && version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${version} (expected ${REPLAY_VERSION})`);
+  if (typeof level !== 'number' || !Number.isInteger(level) || level < 1) throw new Error('Replay has an invalid level');
+  if (typeof seed !== 'number' || !Number.isInteger(seed)) throw new Error('Replay has an invalid seed');
+  if (typeof actions !== 'string' || /[^UDLR]/.test(actions)) throw new Error('Replay has invalid actions');
+  if (!Array.isArray(rewards) || rewards.length !== actions.length || !rewards.every(r => typeof r === 'number')) {
+    throw new Error('Replay rewards do not match its actions');
+  }
+  let replayEvents: ReplayEvent[] = [];
+  if (events !== undefined) {
+    if (!Array.isArray(events) || !events.every(isReplayEvent)) throw new Error('Replay has invalid events');
+    replayEvents = events;
+  }
+  let config: GameConfig;
+  try {
+    config = resolveGameConfig(record.config as Partial<GameConfig> | undefined);
+  } catch (e) {
+    throw new Error(`Replay has an invalid game config: ${e instanceof Error ? e.message : e}`);
+  }
+  let levelPack: Replay['levelPack'];
+  if (version === 1) {
+    levelPack = describeLevelPack(getDefaultLevelPack(config.width, config.height));
+  } else {
+    const pack = record.levelPack as Record<string, unknown> | null | undefined;
+    if (typeof pack !== 'object' || pack === null || typeof pack.name !== 'string' || typeof pack.hash !== 'string' || !/^[0-9a-f]{8}$/.test(pack.hash)) {
+      throw new Error('Replay has an invalid level pack');
+    }
+    levelPack = { name: pack.name, hash: pack.hash };
+  }
+  return {
+    version: REPLAY_VERSION,
+    level,
+    seed,
+    config,
+    levelPack,
+    actions,
+    rewards,
+    events: replayEvents,
+    finalScore: typeof finalScore === 'number' ? finalScore : 0
+  };
+};
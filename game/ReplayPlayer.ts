@@ -0,0 +1,74 @@
+import { LevelPack, Replay } from '../types';
+import { SnakeGame } from './SnakeGame';
+import { checkReplayPack, decodeAction, firstEventMismatch } from './Replay';
+import { getDefaultLevelPack } from './defaultLevels';
+
+/**
+ * Re-simulates a recorded episode from its seed. Stepping back rebuilds the game
+ * from the start, which is cheap next to the step budget of a single episode.
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  readonly levelPack: LevelPack;
+  game: SnakeGame;
+  cursor: number = 0;
+  // Set when a re-simulated reward or event differs from the recorded one (engine changed since recording)
+  diverged: boolean = false;
+  private checkedEvents: number = 0;
+
+  /** Throws if `levelPack` (the built-in pack for the replay's board by default) isn't the one it was recorded on. */
+  constructor(replay: Replay, levelPack?: LevelPack) {
+    this.replay = replay;
+    this.levelPack = levelPack || getDefaultLevelPack(replay.config.width, replay.config.height);
+    checkReplayPack(replay, this.levelPack);
+    this.restart();
+  }
+
+  get length(): number {
+    return this.replay.actions.length;
+  }
+
+  get atEnd(): boolean {
+    return this.cursor >= this.length;
+  }
+
+  stepForward(): boolean {
+    if (this.atEnd) return false;
+    this.game.step(decodeAction(this.replay.actions[this.cursor]));
+    if (this.game.replay!.rewards[this.cursor] !== this.replay.rewards[this.cursor]) this.diverged = true;
+    this.cursor++;
+    this.checkEvents();
+    return true;
+  }
+
+  stepBack(): void {
+    this.seek(this.cursor - 1);
+  }
+
+  seek(target: number): void {
+    const t = Math.max(0, Math.min(this.length, Math.floor(target)));
+    if (t < this.cursor) this.restart();
+    while (this.cursor < t) this.stepForward();
+  }
+
+  /** Reward recorded for the last step played, if any. */
+  get lastReward(): number | null {
+    return this.cursor > 0 ? this.replay.rewards[this.cursor - 1] : null;
+  }
+
+  // The game records its own replay so its food, item and portal placements can be held against the recorded ones
+  private restart(): void {
+    this.game = new SnakeGame(this.replay.level, { seed: this.replay.seed, config: this.replay.config, levelPack: this.levelPack, record: true });
+    this.cursor = 0;
+    this.diverged = false;
+    this.checkedEvents = 0;
+    this.checkEvents();
+  }
+
+  private checkEvents(): void {
+    const played = this.game.replay!.events;
+    // Replays from before events were recorded have none to check against
+    if (this.replay.events.length > 0 && firstEventMismatch(this.replay.events, played, this.checkedEvents) !== -1) this.diverged = true;
+    this.checkedEvents = played.length;
+  }
+}
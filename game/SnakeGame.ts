@@ -1,24 +1,66 @@
 
-import { Point, Direction, GameState, VisionData, ItemType, SpecialItem } from '../types';
-
-export const GRID_SIZE = 30;
-const LEVEL_GOAL = 10;
+import { Point, Direction, GameState, VisionData, ItemType, SpecialItem, Replay, ReplayEvent, LevelDefinition, LevelPack, GameConfig, StepResult } from '../types';
+import { Random } from './Random';
+import { createReplay, encodeAction } from './Replay';
+import { directionVector, getPackLevel, getSpawnSnake, validateLevel, SPAWN_LENGTH } from './levels';
+import { getDefaultLevelPack } from './defaultLevels';
+import { resolveGameConfig } from './gameConfig';
+import { DEFAULT_REWARD_FUNCTION } from './rewards';
+
+const EMPTY_STEP_RESULT: StepResult = {
+  alreadyOver: false,
+  died: null,
+  ateFood: false,
+  pickedItem: null,
+  portalOpened: false,
+  enteredPortal: false,
+  scoreDelta: 0,
+  distanceDelta: 0
+};
+
+export interface SnakeGameOptions {
+  config?: Partial<GameConfig>; // Board size and rule constants, see DEFAULT_GAME_CONFIG
+  seed?: number; // Omit for a random seed; the chosen one is exposed as `seed`
+  record?: boolean; // Keep a Replay log of this episode in `replay`
+  levelPack?: LevelPack; // Defaults to the built-in pack for the board size
+}
 
 export class SnakeGame {
   state: GameState;
-  private maxSteps: number = 3000;
+  readonly seed: number;
+  replay: Replay | null = null;
+  readonly config: GameConfig;
+  readonly width: number;
+  readonly height: number;
+  readonly levelPack: LevelPack;
+  levelDef: LevelDefinition;
+  // All randomness (food, portal, item spawns) goes through this so episodes can be replayed
+  private rng: Random;
   // Performance optimization: 2D array for fast wall/obstacle lookups
   private wallMap: boolean[][];
-
-  constructor(level: number = 1) {
-    this.wallMap = Array.from({ length: GRID_SIZE }, () => new Array(GRID_SIZE).fill(false));
+  // Snake segments per cell (row-major), kept in sync with state.snake so body checks are O(1)
+  private occupancy: Uint8Array;
+  // Returned by every step() and overwritten by the next one
+  private readonly stepResult: StepResult = { ...EMPTY_STEP_RESULT };
+
+  constructor(level: number = 1, options: SnakeGameOptions = {}) {
+    this.config = resolveGameConfig(options.config);
+    this.width = this.config.width;
+    this.height = this.config.height;
+    this.rng = new Random(options.seed);
+    this.seed = this.rng.seed;
+    this.levelPack = options.levelPack || getDefaultLevelPack(this.width, this.height);
+    if (options.record) this.replay = createReplay(level, this.seed, this.config, this.levelPack);
+    this.levelDef = this.loadLevel(level);
+    this.wallMap = Array.from({ length: this.height }, () => new Array(this.width).fill(false));
+    this.occupancy = new Uint8Array(this.width * this.height);
     this.state = this.getInitialState(level);
     this.updateWallMap();
   }
 
   getInitialState(level: number): GameState {
-    const snake = [{ x: 15, y: 15 }, { x: 15, y: 16 }, { x: 15, y: 17 }];
-    const walls = this.getLevelWalls(level);
+    const snake = getSpawnSnake(this.levelDef, this.config.startLength);
+    const walls = this.levelDef.walls.map(w => ({ ...w }));
     return {
       snake,
       food: { x: 0, y: 0 }, // Placeholder, set below
@@ -35,70 +77,92 @@ export class SnakeGame {
     };
   }
 
+  /**
+   * Maps a possibly off-board cell onto the board: wrapped in wrap-around mode,
+   * null when it lies beyond a solid border.
+   */
+  public wrapPoint(x: number, y: number): Point | null {
+    if (x >= 0 && x < this.width && y >= 0 && y < this.height) return { x, y };
+    if (!this.config.wrapAround) return null;
+    return { x: ((x % this.width) + this.width) % this.width, y: ((y % this.height) + this.height) % this.height };
+  }
+
+  /** Whether moving this way would end the game on the spot: board edge, wall or body (the tail included, as in applyStep). */
+  public isDeadlyMove(direction: Direction): boolean {
+    const head = this.state.snake[0];
+    const d = directionVector(direction);
+    const p = this.wrapPoint(head.x + d.x, head.y + d.y);
+    return !p || this.wallMap[p.y][p.x] || this.isSnakeAt(p.x, p.y);
+  }
+
   public isPointWall(x: number, y: number): boolean {
-    if (x < 0 || x >= GRID_SIZE || y < 0 || y >= GRID_SIZE) return true;
-    return this.wallMap[y][x];
+    const p = this.wrapPoint(x, y);
+    return !p || this.wallMap[p.y][p.x];
   }
 
-  private updateWallMap() {
-    for (let y = 0; y < GRID_SIZE; y++) this.wallMap[y].fill(false);
+  /** Whether any snake segment is on the on-board cell (x, y). */
+  public isSnakeAt(x: number, y: number): boolean {
+    return this.occupancy[y * this.width + x] > 0;
+  }
+
+  private occupy(p: Point, delta: number) {
+    this.occupancy[p.y * this.width + p.x] += delta;
+  }
+
+  /**
+   * Replaces the whole state with one built elsewhere, e.g. a snake's view of an ArenaGame.
+   * Food and items stay where the state puts them, and nothing is recorded.
+   */
+  public loadState(state: GameState): void {
+    this.state = state;
+    this.rebuildMaps();
+  }
+
+  private rebuildMaps() {
+    for (let y = 0; y < this.height; y++) this.wallMap[y].fill(false);
     this.state.walls.forEach(w => {
-      if (w.x >= 0 && w.x < GRID_SIZE && w.y >= 0 && w.y < GRID_SIZE) {
+      if (w.x >= 0 && w.x < this.width && w.y >= 0 && w.y < this.height) {
         this.wallMap[w.y][w.x] = true;
       }
     });
+    this.occupancy.fill(0);
+    this.state.snake.forEach(p => this.occupy(p, 1));
+  }
+
+  private updateWallMap() {
+    this.rebuildMaps();
     // Set initial food now that wallMap is ready
-    this.state.food = this.getRandomEmptyPoint(this.state.snake, this.state.walls);
+    this.state.food = this.getRandomEmptyPoint();
+    this.recordEvent(ItemType.FOOD, this.state.food);
   }
 
-  private getLevelWalls(level: number): Point[] {
-    const walls: Point[] = [];
-    if (level === 2) {
-      for (let i = 10; i < 20; i++) {
-        walls.push({ x: i, y: 10 }, { x: i, y: 20 });
-        if (i > 10 && i < 20 && i !== 15) {
-           walls.push({ x: 10, y: i }, { x: 20, y: i });
-        }
-      }
-    } else if (level === 3) {
-      for (let i = 0; i < 12; i++) {
-        walls.push({ x: 15, y: i });
-        walls.push({ x: 15, y: GRID_SIZE - i - 1 });
-        walls.push({ x: i, y: 15 });
-        walls.push({ x: GRID_SIZE - i - 1, y: 15 });
-      }
-    } else if (level >= 4) {
-      // Improved procedural walls: Iterate every cell, use a better hash-like function
-      const seed = level * 1.618; // Use golden ratio to avoid periodic patterns
-      const maxDensity = 0.15; // Cap density to keep the board traversable
-      const density = Math.min(maxDensity, 0.05 + (level * 0.0001)); 
-      
-      for (let i = 0; i < GRID_SIZE; i++) {
-        for (let j = 0; j < GRID_SIZE; j++) {
-          // Skip the center spawning area
-          if (Math.abs(i - 15) < 3 && Math.abs(j - 15) < 3) continue;
-          
-          const val = Math.abs(Math.sin(seed + i * 12.9898 + j * 78.233) * 43758.5453) % 1;
-          if (val < density) {
-            walls.push({ x: i, y: j });
-          }
-        }
-      }
+  private recordEvent(kind: ReplayEvent['kind'], point: Point) {
+    if (this.replay) this.replay.events.push({ t: this.replay.actions.length, kind, point: { ...point } });
+  }
+
+  private loadLevel(level: number): LevelDefinition {
+    const def = getPackLevel(this.levelPack, level, this.config.startLength);
+    if (def.width !== this.width || def.height !== this.height) {
+      throw new Error(`Level "${def.name}" is ${def.width}x${def.height} but the board is ${this.width}x${this.height}`);
     }
-    return walls;
+    // Pack levels were validated for the default length; a longer start may not fit
+    if (this.config.startLength !== SPAWN_LENGTH) {
+      const errors = validateLevel(def, this.config.startLength);
+      if (errors.length > 0) throw new Error(`Level "${def.name}" can't start a snake of length ${this.config.startLength}: ${errors.join('; ')}`);
+    }
+    return def;
   }
 
-  private getRandomEmptyPoint(snake: Point[], walls: Point[], otherItems: SpecialItem[] = []): Point {
+  private getRandomEmptyPoint(otherItems: SpecialItem[] = []): Point {
     let p: Point;
     let attempts = 0;
     while (attempts < 500) {
       p = {
-        x: Math.floor(Math.random() * GRID_SIZE),
-        y: Math.floor(Math.random() * GRID_SIZE),
+        x: this.rng.int(this.width),
+        y: this.rng.int(this.height),
       };
       if (this.wallMap[p.y][p.x]) { attempts++; continue; }
-      const hitSnake = snake.some(s => s.x === p.x && s.y === p.y);
-      if (hitSnake) { attempts++; continue; }
+      if (this.isSnakeAt(p.x, p.y)) { attempts++; continue; }
       const hitItems = otherItems.some(i => i.point.x === p.x && i.point.y === p.y);
       if (hitItems) { attempts++; continue; }
       return p;
@@ -122,50 +186,51 @@ export class SnakeGame {
       forward = { x: head.x - neck.x, y: head.y - neck.y };
     }
 
-    const target = this.state.portalOpen && this.state.portalPoint ? this.state.portalPoint : this.state.food;
+    const target = this.getTarget();
 
     return rayDirs.map(dir => {
-      let curr = { x: head.x + dir.x, y: head.y + dir.y };
+      let curr = this.wrapPoint(head.x + dir.x, head.y + dir.y);
       let dist = 1;
       let foodFound = false;
       let bodyFound = false;
       let wallFound = false;
       let itemFound: ItemType | undefined = undefined;
       let itemDist: number | undefined = undefined;
-      let point = { ...curr };
+      let point = curr ? { ...curr } : { x: head.x + dir.x, y: head.y + dir.y };
+      // With wrap-around a ray could circle forever; one board length is enough to see everything
+      const maxDist = Math.max(this.width, this.height);
 
-      while (curr.x >= 0 && curr.x < GRID_SIZE && curr.y >= 0 && curr.y < GRID_SIZE) {
-        point = { ...curr };
+      while (curr && dist <= maxDist) {
+        const c: Point = curr;
+        point = { ...c };
         
-        if (!foodFound && curr.x === target.x && curr.y === target.y) {
+        if (!foodFound && c.x === target.x && c.y === target.y) {
           foodFound = true;
         }
 
         // Detect Special Items
-        const specialItem = this.state.specialItems.find(si => si.point.x === curr.x && si.point.y === curr.y);
+        const specialItem = this.state.specialItems.find(si => si.point.x === c.x && si.point.y === c.y);
         if (specialItem && !itemFound) {
           itemFound = specialItem.type;
           itemDist = dist;
         }
 
-        if (this.state.snake.some(p => p.x === curr.x && p.y === curr.y)) {
+        if (this.isSnakeAt(c.x, c.y)) {
           bodyFound = true;
           break;
         }
 
-        if (this.wallMap[curr.y][curr.x]) {
+        if (this.wallMap[c.y][c.x]) {
           wallFound = true;
           break;
         }
 
-        curr.x += dir.x;
-        curr.y += dir.y;
+        curr = this.wrapPoint(c.x + dir.x, c.y + dir.y);
         dist++;
       }
 
-      if (!wallFound && (curr.x < 0 || curr.x >= GRID_SIZE || curr.y < 0 || curr.y >= GRID_SIZE)) {
-        wallFound = true;
-      }
+      // Ran off a solid border
+      if (!curr) wallFound = true;
 
       return {
         direction: dir,
@@ -180,39 +245,100 @@ export class SnakeGame {
     });
   }
 
-  step(direction: Direction): number {
-    if (this.state.isGameOver) return -20;
+  /** Manhattan distance, taking the shorter way round on wrap-around boards. */
+  public distance(a: Point, b: Point): number {
+    let dx = Math.abs(a.x - b.x);
+    let dy = Math.abs(a.y - b.y);
+    if (this.config.wrapAround) {
+      dx = Math.min(dx, this.width - dx);
+      dy = Math.min(dy, this.height - dy);
+    }
+    return dx + dy;
+  }
+
+  /** The food, or the portal once it is open. */
+  public getTarget(): Point {
+    return this.state.portalOpen && this.state.portalPoint ? this.state.portalPoint : this.state.food;
+  }
+
+  /**
+   * Moves the snake one cell. The result object is reused by the next step() to keep the hot path
+   * allocation-free, so copy it to keep it.
+   */
+  step(direction: Direction): StepResult {
+    if (this.state.isGameOver) {
+      Object.assign(this.stepResult, EMPTY_STEP_RESULT).alreadyOver = true;
+      return this.stepResult;
+    }
+    if (!this.replay) return this.applyStep(direction);
 
+    this.replay.actions += encodeAction(direction);
+    const result = this.applyStep(direction);
+    this.replay.rewards.push(DEFAULT_REWARD_FUNCTION(result));
+    this.replay.finalScore = this.state.score;
+    return result;
+  }
+
+  private applyStep(direction: Direction): StepResult {
     this.state.steps++;
     if (this.state.slowEffectSteps > 0) this.state.slowEffectSteps--;
 
-    const head = { ...this.state.snake[0] };
+    const result = Object.assign(this.stepResult, EMPTY_STEP_RESULT);
+    const scoreBefore = this.state.score;
+    // Food and portal points are replaced, never mutated, so holding the reference is safe
+    const target = this.getTarget();
+    const snake = this.state.snake;
+    const distanceBefore = this.distance(snake[0], target);
+
+    let x = snake[0].x;
+    let y = snake[0].y;
     switch (direction) {
-      case 'UP': head.y -= 1; break;
-      case 'DOWN': head.y += 1; break;
-      case 'LEFT': head.x -= 1; break;
-      case 'RIGHT': head.x += 1; break;
+      case 'UP': y -= 1; break;
+      case 'DOWN': y += 1; break;
+      case 'LEFT': x -= 1; break;
+      case 'RIGHT': x += 1; break;
+    }
+    // As wrapPoint(), without allocating a point
+    let offBoard = false;
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
+      if (this.config.wrapAround) {
+        x = ((x % this.width) + this.width) % this.width;
+        y = ((y % this.height) + this.height) % this.height;
+      } else {
+        offBoard = true;
+      }
     }
 
     // Death check
-    if (
-      head.x < 0 || head.x >= GRID_SIZE || 
-      head.y < 0 || head.y >= GRID_SIZE ||
-      this.wallMap[head.y][head.x] ||
-      this.state.snake.some(p => p.x === head.x && p.y === head.y) ||
-      this.state.steps > this.maxSteps + this.state.score * 50
-    ) {
+    if (offBoard || this.wallMap[y][x]) result.died = 'WALL';
+    else if (this.isSnakeAt(x, y)) result.died = 'BODY';
+    else if (this.state.steps > this.config.baseStepBudget + this.state.score * this.config.stepBudgetPerScore) result.died = 'TIMEOUT';
+    if (result.died) {
       this.state.isGameOver = true;
-      return -100;
+      return result;
     }
 
-    if (this.state.portalOpen && this.state.portalPoint && head.x === this.state.portalPoint.x && head.y === this.state.portalPoint.y) {
+    if (this.state.portalOpen && this.state.portalPoint && x === this.state.portalPoint.x && y === this.state.portalPoint.y) {
       this.advanceLevel();
-      return 250;
+      result.enteredPortal = true;
+      result.distanceDelta = this.distance(this.state.snake[0], target) - distanceBefore;
+      return result;
     }
 
-    const newSnake = [head, ...this.state.snake];
-    let reward = -0.05; // Slightly lower step penalty
+    // The snake is updated in place (and occupancy with it). Unless it eats, the tail moves on and
+    // its point becomes the new head, so a step allocates nothing; the unshift is still O(length).
+    const eats = x === this.state.food.x && y === this.state.food.y;
+    let head: Point;
+    if (eats) {
+      head = { x, y };
+    } else {
+      head = snake.pop()!;
+      this.occupy(head, -1);
+      head.x = x;
+      head.y = y;
+    }
+    snake.unshift(head);
+    this.occupy(head, 1);
 
     let pickedItemIndex = -1;
     for (let i = 0; i < this.state.specialItems.length; i++) {
@@ -226,43 +352,51 @@ export class SnakeGame {
     if (pickedItemIndex !== -1) {
       const item = this.state.specialItems[pickedItemIndex];
       this.state.specialItems.splice(pickedItemIndex, 1);
-      switch (item.type) {
-        case ItemType.GOLD: this.state.score += 15; reward = 60; break;
-        case ItemType.SCISSORS:
-          this.state.score += 5; reward = 40;
-          const reduceAmount = Math.max(0, newSnake.length - 5);
-          for (let k = 0; k < Math.min(3, reduceAmount); k++) newSnake.pop();
-          break;
-        case ItemType.ICE: this.state.score += 2; this.state.slowEffectSteps = 20; reward = 15; break;
+      this.state.score += this.config.scores[item.type];
+      result.pickedItem = item.type;
+      if (item.type === ItemType.SCISSORS) {
+        // Measured with the old tail still on, as before the tail moved first, so replays keep their lengths
+        const reduceAmount = Math.max(0, snake.length + (eats ? 0 : 1) - this.config.scissorsMinLength);
+        for (let k = 0; k < Math.min(this.config.scissorsCut, reduceAmount); k++) this.occupy(snake.pop()!, -1);
+      } else if (item.type === ItemType.ICE) {
+        this.state.slowEffectSteps = this.config.iceSlowSteps;
       }
     }
 
-    if (head.x === this.state.food.x && head.y === this.state.food.y) {
-      this.state.score += 1;
+    if (eats) {
+      this.state.score += this.config.scores[ItemType.FOOD];
       this.state.itemsCollectedInLevel++;
-      reward = 30; // Better food reward
-      if (this.state.itemsCollectedInLevel >= LEVEL_GOAL && !this.state.portalOpen) {
+      result.ateFood = true;
+      if (this.state.itemsCollectedInLevel >= this.levelDef.goal && !this.state.portalOpen) {
         this.state.portalOpen = true;
-        this.state.portalPoint = this.getRandomEmptyPoint(newSnake, this.state.walls, this.state.specialItems);
+        this.state.portalPoint = this.levelDef.portal
+          ? { ...this.levelDef.portal }
+          : this.getRandomEmptyPoint(this.state.specialItems);
+        result.portalOpened = true;
+        this.recordEvent('PORTAL', this.state.portalPoint);
       }
-      this.state.food = this.getRandomEmptyPoint(newSnake, this.state.walls, this.state.specialItems);
-    } else {
-      newSnake.pop();
+      this.state.food = this.getRandomEmptyPoint(this.state.specialItems);
+      this.recordEvent(ItemType.FOOD, this.state.food);
     }
 
-    if (this.state.steps % 75 === 0 && Math.random() < 0.3 && this.state.specialItems.length < 3) {
-      const types = [ItemType.GOLD, ItemType.SCISSORS, ItemType.ICE];
-      const type = types[Math.floor(Math.random() * types.length)];
-      this.state.specialItems.push({
-        type,
-        point: this.getRandomEmptyPoint(newSnake, this.state.walls, this.state.specialItems),
-        expires: this.state.steps + 150
-      });
+    const types = this.levelDef.allowedItems;
+    const { itemSpawnInterval, itemSpawnChance, maxSpecialItems, itemLifetime } = this.config;
+    if (this.state.steps % itemSpawnInterval === 0 && this.rng.next() < itemSpawnChance && this.state.specialItems.length < maxSpecialItems && types.length > 0) {
+      const type = types[this.rng.int(types.length)];
+      const point = this.getRandomEmptyPoint(this.state.specialItems);
+      this.state.specialItems.push({ type, point, expires: this.state.steps + itemLifetime });
+      this.recordEvent(type, point);
     }
 
-    this.state.specialItems = this.state.specialItems.filter(i => i.expires > this.state.steps);
-    this.state.snake = newSnake;
-    return reward;
+    const items = this.state.specialItems;
+    let kept = 0;
+    for (let i = 0; i < items.length; i++) {
+      if (items[i].expires > this.state.steps) items[kept++] = items[i];
+    }
+    items.length = kept;
+    result.scoreDelta = this.state.score - scoreBefore;
+    result.distanceDelta = this.distance(head, target) - distanceBefore;
+    return result;
   }
 
   private advanceLevel() {
@@ -270,10 +404,11 @@ export class SnakeGame {
     this.state.itemsCollectedInLevel = 0;
     this.state.portalOpen = false;
     this.state.portalPoint = null;
-    this.state.walls = this.getLevelWalls(this.state.level);
+    this.levelDef = this.loadLevel(this.state.level);
+    this.state.walls = this.levelDef.walls.map(w => ({ ...w }));
     this.state.specialItems = [];
     this.state.steps = 0;
-    this.state.snake = [{ x: 15, y: 15 }, { x: 15, y: 16 }, { x: 15, y: 17 }];
+    this.state.snake = getSpawnSnake(this.levelDef, this.config.startLength);
     this.updateWallMap(); 
   }
 }
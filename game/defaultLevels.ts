@@ -0,0 +1,133 @@
+import { LevelPack } from '../types';
+import { LevelPackFile, parseLevel, parseLevelPack } from './levels';
+
+/**
+ * The built-in campaign: three hand-made sectors, then endless procedural ones.
+ * See LevelFile in ./levels for the map legend.
+ */
+export const DEFAULT_LEVEL_PACK_FILE: LevelPackFile = {
+  name: 'Core Sectors',
+  procedural: true,
+  levels: [
+    {
+      name: 'Open Field',
+      map: [
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '...............S..............',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................'
+      ]
+    },
+    {
+      name: 'The Box',
+      map: [
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..........##########..........',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '...............S..............',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '..........#.........#.........',
+        '..........##########..........',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................',
+        '..............................'
+      ]
+    },
+    {
+      name: 'Crossroads',
+      map: [
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '..............................',
+        '..............................',
+        '..............................',
+        '############...S..############',
+        '..............................',
+        '..............................',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............',
+        '...............#..............'
+      ]
+    }
+  ]
+};
+
+export const DEFAULT_LEVEL_PACK = parseLevelPack(DEFAULT_LEVEL_PACK_FILE);
+
+/**
+ * The hand-made maps are 30x30; other board sizes get an open first sector
+ * followed by procedural ones.
+ */
+export const getDefaultLevelPack = (width: number, height: number): LevelPack => {
+  if (width === 30 && height === 30) return DEFAULT_LEVEL_PACK;
+  return {
+    name: `${DEFAULT_LEVEL_PACK.name} ${width}x${height}`,
+    levels: [parseLevel({ name: 'Open Field', width, height, walls: [] })],
+    procedural: true
+  };
+};
@@ -0,0 +1,36 @@
+import { GameConfig, ItemType } from '../types';
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  width: 30,
+  height: 30,
+  wrapAround: false,
+  startLength: 3,
+  baseStepBudget: 3000,
+  stepBudgetPerScore: 50,
+  scores: { [ItemType.FOOD]: 1, [ItemType.GOLD]: 15, [ItemType.SCISSORS]: 5, [ItemType.ICE]: 2 },
+  itemSpawnInterval: 75,
+  itemSpawnChance: 0.3,
+  maxSpecialItems: 3,
+  itemLifetime: 150,
+  iceSlowSteps: 20,
+  scissorsCut: 3,
+  scissorsMinLength: 5
+};
+
+/** Fills in defaults and checks the values the engine can't work with. */
+export const resolveGameConfig = (config: Partial<GameConfig> = {}): GameConfig => {
+  const resolved: GameConfig = {
+    ...DEFAULT_GAME_CONFIG,
+    ...config,
+    scores: { ...DEFAULT_GAME_CONFIG.scores, ...config.scores }
+  };
+  const { width, height, startLength, itemSpawnInterval } = resolved;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 5 || height < 5) {
+    throw new Error(`Board must be at least 5x5, got ${width}x${height}`);
+  }
+  if (!Number.isInteger(startLength) || startLength < 1) throw new Error(`startLength must be a positive integer, got ${startLength}`);
+  if (!Number.isInteger(itemSpawnInterval) || itemSpawnInterval < 1) {
+    throw new Error(`itemSpawnInterval must be a positive integer, got ${itemSpawnInterval}`);
+  }
+  return resolved;
+};
@@ -0,0 +1,249 @@
+import { Direction, ItemType, LevelDefinition, LevelPack, Point } from '../types';
+
+/**
+ * On-disk level format. Either `map` (ASCII rows) or `width`/`height`/`walls` describes the board.
+ * Map legend: '#' wall, 'S' spawn (snake head), 'P' fixed portal, '.' or ' ' empty.
+ */
+export interface LevelFile {
+  name?: string;
+  map?: string[];
+  width?: number;
+  height?: number;
+  walls?: Point[];
+  spawn?: Point;
+  spawnDirection?: Direction;
+  goal?: number;
+  items?: ItemType[];
+  portal?: Point | null;
+}
+
+export interface LevelPackFile {
+  name: string;
+  levels: LevelFile[];
+  procedural?: boolean;
+}
+
+export const DEFAULT_LEVEL_GOAL = 10;
+export const SPAWN_LENGTH = 3;
+export const SPECIAL_ITEM_TYPES: ItemType[] = [ItemType.GOLD, ItemType.SCISSORS, ItemType.ICE];
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+export const directionVector = (direction: Direction): Point => {
+  switch (direction) {
+    case 'UP': return { x: 0, y: -1 };
+    case 'DOWN': return { x: 0, y: 1 };
+    case 'LEFT': return { x: -1, y: 0 };
+    case 'RIGHT': return { x: 1, y: 0 };
+  }
+};
+
+/** Initial snake for a level: head on the spawn point, body trailing opposite the spawn direction. */
+export const getSpawnSnake = (level: LevelDefinition, length: number = SPAWN_LENGTH): Point[] => {
+  const d = directionVector(level.spawnDirection);
+  return Array.from({ length }, (_, i) => ({ x: level.spawn.x - d.x * i, y: level.spawn.y - d.y * i }));
+};
+
+const inBounds = (level: LevelDefinition, p: Point) => p.x >= 0 && p.x < level.width && p.y >= 0 && p.y < level.height;
+
+const buildWallGrid = (level: LevelDefinition): boolean[][] => {
+  const grid = Array.from({ length: level.height }, () => new Array(level.width).fill(false));
+  level.walls.forEach(w => { if (inBounds(level, w)) grid[w.y][w.x] = true; });
+  return grid;
+};
+
+/** Flood fill over non-wall cells starting at the spawn point. */
+const floodFromSpawn = (level: LevelDefinition, walls: boolean[][]): boolean[][] => {
+  const seen = Array.from({ length: level.height }, () => new Array(level.width).fill(false));
+  if (!inBounds(level, level.spawn) || walls[level.spawn.y][level.spawn.x]) return seen;
+  const queue: Point[] = [level.spawn];
+  seen[level.spawn.y][level.spawn.x] = true;
+  while (queue.length > 0) {
+    const p = queue.pop()!;
+    for (const dir of DIRECTIONS) {
+      const d = directionVector(dir);
+      const n = { x: p.x + d.x, y: p.y + d.y };
+      if (inBounds(level, n) && !walls[n.y][n.x] && !seen[n.y][n.x]) {
+        seen[n.y][n.x] = true;
+        queue.push(n);
+      }
+    }
+  }
+  return seen;
+};
+
+/** Returns a list of problems; an empty list means the level is playable. */
+export const validateLevel = (level: LevelDefinition, snakeLength: number = SPAWN_LENGTH): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(level.width) || !Number.isInteger(level.height) || level.width < 3 || level.height < 3) {
+    return [`invalid board size ${level.width}x${level.height}`];
+  }
+
+  const outOfBounds = level.walls.filter(w => !inBounds(level, w));
+  if (outOfBounds.length > 0) errors.push(`${outOfBounds.length} wall(s) outside the board`);
+
+  const walls = buildWallGrid(level);
+  if (!DIRECTIONS.includes(level.spawnDirection)) errors.push(`invalid spawn direction "${level.spawnDirection}"`);
+  getSpawnSnake(level, snakeLength).forEach((p, i) => {
+    const part = i === 0 ? 'spawn point' : 'spawn body';
+    if (!inBounds(level, p)) errors.push(`${part} (${p.x},${p.y}) is outside the board`);
+    else if (walls[p.y][p.x]) errors.push(`${part} (${p.x},${p.y}) is inside a wall`);
+  });
+
+  if (!Number.isInteger(level.goal) || level.goal < 1) errors.push(`goal must be a positive integer, got ${level.goal}`);
+  level.allowedItems.forEach(t => {
+    if (!SPECIAL_ITEM_TYPES.includes(t)) errors.push(`"${t}" is not a special item type`);
+  });
+
+  const reachable = floodFromSpawn(level, walls);
+  if (level.portal) {
+    const p = level.portal;
+    if (!inBounds(level, p)) errors.push(`portal (${p.x},${p.y}) is outside the board`);
+    else if (walls[p.y][p.x]) errors.push(`portal (${p.x},${p.y}) is inside a wall`);
+    else if (!reachable[p.y][p.x]) errors.push(`portal (${p.x},${p.y}) is not reachable from spawn`);
+  }
+
+  // Food can land on any empty cell, so every empty cell must be reachable
+  let freeCells = 0;
+  const unreachable: Point[] = [];
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      if (walls[y][x]) continue;
+      freeCells++;
+      if (!reachable[y][x]) unreachable.push({ x, y });
+    }
+  }
+  if (unreachable.length > 0) {
+    errors.push(`${unreachable.length} empty cell(s) unreachable from spawn, e.g. (${unreachable[0].x},${unreachable[0].y})`);
+  }
+  if (freeCells <= snakeLength + 1) errors.push('not enough free cells for the snake and food');
+  return errors;
+};
+
+/** Walls off empty pockets that can't be reached from spawn, so food never lands there. */
+export const sealUnreachable = (level: LevelDefinition): LevelDefinition => {
+  const walls = buildWallGrid(level);
+  const reachable = floodFromSpawn(level, walls);
+  const sealed = [...level.walls];
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      if (!walls[y][x] && !reachable[y][x]) sealed.push({ x, y });
+    }
+  }
+  return { ...level, walls: sealed };
+};
+
+/** Builds and validates a LevelDefinition from its file form. Throws listing every problem found. */
+export const parseLevel = (file: LevelFile, fallbackName: string = 'Untitled'): LevelDefinition => {
+  const name = file.name || fallbackName;
+  let width = file.width ?? 0;
+  let height = file.height ?? 0;
+  let walls: Point[] = file.walls ? file.walls.map(w => ({ x: w.x, y: w.y })) : [];
+  let spawn: Point | undefined = file.spawn;
+  let portal: Point | null = file.portal ?? null;
+
+  if (file.map) {
+    height = file.map.length;
+    width = height > 0 ? Math.max(...file.map.map(row => row.length)) : 0;
+    walls = [];
+    file.map.forEach((row, y) => {
+      for (let x = 0; x < width; x++) {
+        const c = row[x] ?? '.';
+        if (c === '#') walls.push({ x, y });
+        else if (c === 'S') spawn = { x, y };
+        else if (c === 'P') portal = { x, y };
+        else if (c !== '.' && c !== ' ') throw new Error(`Level "${name}": unknown map character "${c}" at (${x},${y})`);
+      }
+    });
+  }
+
+  const level: LevelDefinition = {
+    name,
+    width,
+    height,
+    walls,
+    spawn: spawn ?? { x: Math.floor(width / 2), y: Math.floor(height / 2) },
+    spawnDirection: file.spawnDirection ?? 'UP',
+    goal: file.goal ?? DEFAULT_LEVEL_GOAL,
+    allowedItems: file.items ?? [...SPECIAL_ITEM_TYPES],
+    portal
+  };
+
+  const errors = validateLevel(level);
+  if (errors.length > 0) throw new Error(`Level "${name}" is invalid: ${errors.join('; ')}`);
+  return level;
+};
+
+export const parseLevelPack = (input: string | LevelPackFile): LevelPack => {
+  const file: LevelPackFile = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!file || !Array.isArray(file.levels) || file.levels.length === 0) {
+    throw new Error('Level pack must contain at least one level');
+  }
+  const name = file.name || 'Untitled pack';
+  return {
+    name,
+    levels: file.levels.map((l, i) => parseLevel(l, `${name} #${i + 1}`)),
+    procedural: !!file.procedural
+  };
+};
+
+/**
+ * Procedural level from a sin-based hash of the level number; stable across runs.
+ * The centre is kept clear for the spawn and unreachable pockets are sealed.
+ */
+export const generateProceduralLevel = (level: number, width: number, height: number, spawnLength: number = SPAWN_LENGTH): LevelDefinition => {
+  const walls: Point[] = [];
+  const seed = level * 1.618; // Use golden ratio to avoid periodic patterns
+  const maxDensity = 0.15; // Cap density to keep the board traversable
+  const density = Math.min(maxDensity, 0.05 + (level * 0.0001));
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+
+  for (let i = 0; i < width; i++) {
+    for (let j = 0; j < height; j++) {
+      // Skip the center spawning area
+      if (Math.abs(i - cx) < 3 && Math.abs(j - cy) < 3) continue;
+      // ...and the rest of a long starting body
+      if (i === cx && j >= cy && j < cy + spawnLength) continue;
+
+      const val = Math.abs(Math.sin(seed + i * 12.9898 + j * 78.233) * 43758.5453) % 1;
+      if (val < density) {
+        walls.push({ x: i, y: j });
+      }
+    }
+  }
+
+  return sealUnreachable({
+    name: `Procedural ${level}`,
+    width,
+    height,
+    walls,
+    spawn: { x: cx, y: cy },
+    spawnDirection: 'UP',
+    goal: DEFAULT_LEVEL_GOAL,
+    allowedItems: [...SPECIAL_ITEM_TYPES],
+    portal: null
+  });
+};
+
+// Packs aren't changed once parsed, and every recorded episode asks for its pack's hash
+const packHashes = new WeakMap<LevelPack, string>();
+
+/** FNV-1a hash of a pack's levels as 8 hex digits, so replays can tell which walls they were played on. */
+export const levelPackHash = (pack: LevelPack): string => {
+  let cached = packHashes.get(pack);
+  if (cached === undefined) {
+    const text = JSON.stringify({ levels: pack.levels, procedural: pack.procedural });
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    cached = (hash >>> 0).toString(16).padStart(8, '0');
+    packHashes.set(pack, cached);
+  }
+  return cached;
+};
+
+/** Level `n` (1-based) of a pack; past the end it is procedural or repeats the last level. */
+export const getPackLevel = (pack: LevelPack, level: number, spawnLength: number = SPAWN_LENGTH): LevelDefinition => {
+  if (level <= pack.levels.length) return pack.levels[Math.max(0, level - 1)];
+  const last = pack.levels[pack.levels.length - 1];
+  return pack.procedural ? generateProceduralLevel(level, last.width, last.height, spawnLength) : last;
+};
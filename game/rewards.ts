@@ -0,0 +1,55 @@
+import { DeathCause, ItemType, StepResult } from '../types';
+
+/** Turns a StepResult into the scalar an RL agent learns from. */
+export type RewardFunction = (result: StepResult) => number;
+
+export interface RewardConfig {
+  step: number; // Every step that isn't a pickup, death or portal
+  pickups: Record<ItemType, number>;
+  death: Record<DeathCause, number>;
+  portal: number;
+  afterGameOver: number; // step() on a finished game
+  approach: number; // Added when the head moved closer to the target...
+  retreat: number; // ...and when it moved away
+}
+
+export const DEFAULT_REWARD_CONFIG: RewardConfig = {
+  step: -0.05,
+  pickups: { [ItemType.FOOD]: 30, [ItemType.GOLD]: 60, [ItemType.SCISSORS]: 40, [ItemType.ICE]: 15 },
+  death: { WALL: -100, BODY: -100, TIMEOUT: -100 },
+  portal: 250,
+  afterGameOver: -20,
+  approach: 0.8,
+  retreat: -0.8
+};
+
+/**
+ * The stock scheme: sparse event rewards plus Manhattan proximity shaping.
+ * Food outranks a special item picked up on the same step.
+ */
+export const createRewardFunction = (overrides: Partial<RewardConfig> = {}): RewardFunction => {
+  const config: RewardConfig = {
+    ...DEFAULT_REWARD_CONFIG,
+    ...overrides,
+    pickups: { ...DEFAULT_REWARD_CONFIG.pickups, ...overrides.pickups },
+    death: { ...DEFAULT_REWARD_CONFIG.death, ...overrides.death }
+  };
+  return (result: StepResult) => {
+    if (result.alreadyOver) return config.afterGameOver;
+    if (result.died) return config.death[result.died];
+
+    let reward = config.step;
+    if (result.enteredPortal) reward = config.portal;
+    else if (result.ateFood) reward = config.pickups[ItemType.FOOD];
+    else if (result.pickedItem) reward = config.pickups[result.pickedItem];
+
+    if (result.distanceDelta < 0) reward += config.approach;
+    else if (result.distanceDelta > 0) reward += config.retreat;
+    return reward;
+  };
+};
+
+export const DEFAULT_REWARD_FUNCTION = createRewardFunction();
+
+/** Pure event rewards without proximity shaping. */
+export const SPARSE_REWARD_FUNCTION = createRewardFunction({ approach: 0, retreat: 0 });
@@ -0,0 +1,215 @@
+import { ModelAgentType } from '../ai/modelFile';
+import { Demonstration, GeneticStats, Leaderboard, QLearningStats } from '../types';
+
+const DB_NAME = 'coresnake';
+const DB_VERSION = 3;
+const CHECKPOINTS = 'checkpoints';
+const MODELS = 'models';
+const LATEST = 'latest';
+const DEMOS = 'demos';
+const LEADERBOARDS = 'leaderboards';
+
+export type CheckpointKind = 'auto' | 'manual';
+export type AgentStats = QLearningStats | GeneticStats;
+
+/** Listing entry; the model bytes are stored separately so listing stays cheap. */
+export interface CheckpointMeta {
+  id: number;
+  run: string;
+  agentType: ModelAgentType;
+  name: string;
+  kind: CheckpointKind;
+  createdAt: string;
+  trainingSteps: number;
+  stats: AgentStats;
+  bytes: number;
+}
+
+/** The live state of an agent in a run, overwritten on every autosave. */
+export interface RunState {
+  run: string;
+  agentType: ModelAgentType;
+  model: Uint8Array;
+  stats: AgentStats;
+  updatedAt: string;
+}
+
+/** A demonstration saved in a run. */
+export interface StoredDemonstration extends Demonstration {
+  id: number;
+  run: string;
+}
+
+export interface StatDiff {
+  key: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * IndexedDB persistence for training runs. Each run keeps the latest state of each agent
+ * type plus any number of named checkpoints, which hold model files (see ai/modelFile.ts),
+ * the demonstrations recorded for imitation, and its tournament leaderboard.
+ */
+export class CheckpointStore {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  static async open(name: string = DB_NAME): Promise<CheckpointStore> {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = event => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        const checkpoints = db.createObjectStore(CHECKPOINTS, { keyPath: 'id', autoIncrement: true });
+        checkpoints.createIndex('run', 'run');
+        db.createObjectStore(MODELS);
+        db.createObjectStore(LATEST, { keyPath: ['run', 'agentType'] });
+      }
+      if (event.oldVersion < 2) db.createObjectStore(DEMOS, { keyPath: 'id', autoIncrement: true }).createIndex('run', 'run');
+      if (event.oldVersion < 3) db.createObjectStore(LEADERBOARDS, { keyPath: 'run' });
+    };
+    return new CheckpointStore(await request(req));
+  }
+
+  /** Every run that has a saved state or checkpoint, sorted by name. */
+  async listRuns(): Promise<string[]> {
+    const tx = this.db.transaction([CHECKPOINTS, LATEST], 'readonly');
+    const [checkpoints, latest] = await Promise.all([
+      request<CheckpointMeta[]>(tx.objectStore(CHECKPOINTS).getAll()),
+      request<RunState[]>(tx.objectStore(LATEST).getAll())
+    ]);
+    const runs = new Set<string>();
+    checkpoints.forEach(c => runs.add(c.run));
+    latest.forEach(l => runs.add(l.run));
+    return [...runs].sort();
+  }
+
+  /** Checkpoints of one agent in a run, newest first. */
+  async list(run: string, agentType: ModelAgentType): Promise<CheckpointMeta[]> {
+    const tx = this.db.transaction(CHECKPOINTS, 'readonly');
+    const all: CheckpointMeta[] = await request(tx.objectStore(CHECKPOINTS).index('run').getAll(run));
+    return all.filter(c => c.agentType === agentType).sort((a, b) => b.id - a.id);
+  }
+
+  async saveCheckpoint(entry: Omit<CheckpointMeta, 'id' | 'bytes' | 'createdAt'>, model: Uint8Array): Promise<CheckpointMeta> {
+    const tx = this.db.transaction([CHECKPOINTS, MODELS], 'readwrite');
+    const meta: Omit<CheckpointMeta, 'id'> = { ...entry, createdAt: new Date().toISOString(), bytes: model.length };
+    const id = await request(tx.objectStore(CHECKPOINTS).add(meta)) as number;
+    tx.objectStore(MODELS).put(model, id);
+    await completion(tx);
+    return { ...meta, id };
+  }
+
+  async loadModel(id: number): Promise<Uint8Array> {
+    const tx = this.db.transaction(MODELS, 'readonly');
+    const model: Uint8Array | undefined = await request(tx.objectStore(MODELS).get(id));
+    if (!model) throw new Error(`Checkpoint ${id} has no saved model`);
+    return model;
+  }
+
+  async deleteCheckpoint(id: number): Promise<void> {
+    const tx = this.db.transaction([CHECKPOINTS, MODELS], 'readwrite');
+    tx.objectStore(CHECKPOINTS).delete(id);
+    tx.objectStore(MODELS).delete(id);
+    await completion(tx);
+  }
+
+  /** Deletes all but the newest `keep` auto checkpoints of an agent in a run. */
+  async pruneAutoCheckpoints(run: string, agentType: ModelAgentType, keep: number): Promise<void> {
+    const auto = (await this.list(run, agentType)).filter(c => c.kind === 'auto');
+    for (const c of auto.slice(keep)) await this.deleteCheckpoint(c.id);
+  }
+
+  async saveLatest(state: RunState): Promise<void> {
+    const tx = this.db.transaction(LATEST, 'readwrite');
+    tx.objectStore(LATEST).put(state);
+    await completion(tx);
+  }
+
+  async loadLatest(run: string, agentType: ModelAgentType): Promise<RunState | null> {
+    const tx = this.db.transaction(LATEST, 'readonly');
+    const state: RunState | undefined = await request(tx.objectStore(LATEST).get([run, agentType]));
+    return state || null;
+  }
+
+  async saveDemo(run: string, demo: Demonstration): Promise<StoredDemonstration> {
+    const tx = this.db.transaction(DEMOS, 'readwrite');
+    const id = await request(tx.objectStore(DEMOS).add({ ...demo, run })) as number;
+    await completion(tx);
+    return { ...demo, run, id };
+  }
+
+  /** The run's demonstrations, oldest first. */
+  async listDemos(run: string): Promise<StoredDemonstration[]> {
+    const tx = this.db.transaction(DEMOS, 'readonly');
+    return request(tx.objectStore(DEMOS).index('run').getAll(run));
+  }
+
+  async deleteDemo(id: number): Promise<void> {
+    const tx = this.db.transaction(DEMOS, 'readwrite');
+    tx.objectStore(DEMOS).delete(id);
+    await completion(tx);
+  }
+
+  async loadLeaderboard(run: string): Promise<Leaderboard | null> {
+    const tx = this.db.transaction(LEADERBOARDS, 'readonly');
+    const board: Leaderboard | undefined = await request(tx.objectStore(LEADERBOARDS).get(run));
+    return board || null;
+  }
+
+  async saveLeaderboard(board: Leaderboard): Promise<void> {
+    const tx = this.db.transaction(LEADERBOARDS, 'readwrite');
+    tx.objectStore(LEADERBOARDS).put(board);
+    await completion(tx);
+  }
+
+  async deleteLeaderboard(run: string): Promise<void> {
+    const tx = this.db.transaction(LEADERBOARDS, 'readwrite');
+    tx.objectStore(LEADERBOARDS).delete(run);
+    await completion(tx);
+  }
+
+  /** Removes the run's saved states, checkpoints, demonstrations and leaderboard, leaving other runs untouched. */
+  async purgeRun(run: string): Promise<void> {
+    const readTx = this.db.transaction([CHECKPOINTS, DEMOS], 'readonly');
+    const [ids, demoIds] = await Promise.all([
+      request(readTx.objectStore(CHECKPOINTS).index('run').getAllKeys(run)) as Promise<IDBValidKey[]>,
+      request(readTx.objectStore(DEMOS).index('run').getAllKeys(run)) as Promise<IDBValidKey[]>
+    ]);
+    const tx = this.db.transaction([CHECKPOINTS, MODELS, LATEST, DEMOS, LEADERBOARDS], 'readwrite');
+    ids.forEach(id => {
+      tx.objectStore(CHECKPOINTS).delete(id);
+      tx.objectStore(MODELS).delete(id);
+    });
+    demoIds.forEach(id => tx.objectStore(DEMOS).delete(id));
+    tx.objectStore(LEADERBOARDS).delete(run);
+    // Every agent type's state in the run: array keys sort after strings, so [run, []] bounds them all
+    tx.objectStore(LATEST).delete(IDBKeyRange.bound([run], [run, []]));
+    await completion(tx);
+  }
+}
+
+/** Numeric stats of two checkpoints side by side, in field order (histories are skipped). */
+export const diffCheckpointStats = (before: CheckpointMeta, after: CheckpointMeta): StatDiff[] => {
+  const a = before.stats as unknown as Record<string, unknown>;
+  const b = after.stats as unknown as Record<string, unknown>;
+  return Object.keys(b)
+    .filter(key => typeof a[key] === 'number' && typeof b[key] === 'number')
+    .map(key => ({ key, before: a[key] as number, after: b[key] as number, delta: (b[key] as number) - (a[key] as number) }));
+};
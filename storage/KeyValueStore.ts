@@ -0,0 +1,31 @@
+/**
+ * Minimal string key/value persistence used by agents. `localStorage` satisfies it
+ * directly; Node callers pass a file-backed store instead.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** Non-persistent store, used when no browser storage is available. */
+export class MemoryStore implements KeyValueStore {
+  private data = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+}
+
+/** localStorage when running in a browser, otherwise an in-memory store. */
+export const getDefaultStore = (): KeyValueStore => {
+  return typeof localStorage !== 'undefined' ? localStorage : new MemoryStore();
+};
@@ -1,7 +1,11 @@
 
 export enum GameMode {
   AI_WATCH = 'AI_WATCH',
-  TRAINING = 'TRAINING'
+  TRAINING = 'TRAINING',
+  EVOLUTION = 'EVOLUTION',
+  REPLAY = 'REPLAY',
+  HUMAN = 'HUMAN',
+  ARENA = 'ARENA'
 }
 
 export enum ItemType {
@@ -18,6 +22,55 @@ export type Point = {
 
 export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
 
+export interface GameConfig {
+  width: number;
+  height: number;
+  wrapAround: boolean; // Leaving one edge enters the opposite one instead of dying
+  startLength: number;
+  baseStepBudget: number; // Episode times out after baseStepBudget + score * stepBudgetPerScore steps
+  stepBudgetPerScore: number;
+  scores: Record<ItemType, number>; // Game score per pickup
+  itemSpawnInterval: number; // Steps between special item spawn attempts
+  itemSpawnChance: number;
+  maxSpecialItems: number;
+  itemLifetime: number; // Steps before an uncollected special item disappears
+  iceSlowSteps: number;
+  scissorsCut: number; // Segments removed by SCISSORS...
+  scissorsMinLength: number; // ...without shrinking the snake below this
+}
+
+export type DeathCause = 'WALL' | 'BODY' | 'TIMEOUT';
+
+/** What happened during one SnakeGame.step(); reward functions turn this into a scalar. */
+export interface StepResult {
+  alreadyOver: boolean; // step() was called on a finished game and did nothing
+  died: DeathCause | null;
+  ateFood: boolean;
+  pickedItem: ItemType | null; // Special item collected this step
+  portalOpened: boolean;
+  enteredPortal: boolean;
+  scoreDelta: number;
+  distanceDelta: number; // Change in distance to the pre-step target (negative = closer), 0 on death
+}
+
+export interface LevelDefinition {
+  name: string;
+  width: number;
+  height: number;
+  walls: Point[];
+  spawn: Point; // Head position; the body trails behind spawnDirection
+  spawnDirection: Direction;
+  goal: number; // Food needed to open the portal
+  allowedItems: ItemType[]; // Special items that may spawn
+  portal: Point | null; // Fixed portal location, or null for a random one
+}
+
+export interface LevelPack {
+  name: string;
+  levels: LevelDefinition[];
+  procedural: boolean; // Generate levels past the end of the pack instead of repeating the last one
+}
+
 export interface VisionData {
   direction: Point;
   dist: number;
@@ -36,7 +89,7 @@ export interface SpecialItem {
 }
 
 export interface GameState {
-  snake: Point[];
+  snake: Point[]; // Head first. SnakeGame moves the tail's point to the head in place, so copy a point to keep its value
   food: Point;
   specialItems: SpecialItem[];
   walls: Point[];
@@ -50,16 +103,180 @@ export interface GameState {
   portalPoint: Point | null;
 }
 
+// An arena snake can also die head-on into another; rewards see that as BODY
+export type ArenaDeathCause = DeathCause | 'HEAD';
+
+export interface ArenaSnake {
+  body: Point[]; // Head first; kept after death so the board can still show it
+  score: number;
+  foodEaten: number;
+  alive: boolean;
+  died: ArenaDeathCause | null;
+  slowEffectSteps: number; // While ICE lasts the snake only moves on even steps
+}
+
+/** Several snakes on one board, moved together by ArenaGame.step(). */
+export interface ArenaState {
+  snakes: ArenaSnake[];
+  food: Point;
+  specialItems: SpecialItem[];
+  walls: Point[];
+  level: number; // Pack level the walls come from
+  steps: number;
+  isOver: boolean; // Every snake is dead, or the step limit was reached
+}
+
+export interface ReplayEvent {
+  t: number; // Number of actions taken when it happened (0 = before the first step)
+  kind: ItemType | 'PORTAL';
+  point: Point;
+}
+
+export interface Replay {
+  version: number;
+  level: number; // Starting level
+  seed: number;
+  config: GameConfig;
+  levelPack: { name: string; hash: string }; // The pack it was played on; see levelPackHash()
+  actions: string; // One char per step: U/D/L/R
+  rewards: number[]; // DEFAULT_REWARD_FUNCTION applied to each step's StepResult
+  events: ReplayEvent[]; // Food placements, item spawns and portal openings
+  finalScore: number;
+}
+
+// Non-learning baselines; see ai/planners.ts
+export type PlannerKind = 'greedy' | 'astar' | 'hamiltonian';
+
+// A recorded episode to learn from; the replay reproduces every state it passed through
+export interface Demonstration {
+  source: 'human' | PlannerKind; // Who played it
+  replay: Replay;
+  createdAt: string;
+}
+
+/** A hyperparameter as a function of the agent's total step count `t`. */
+export type Schedule =
+  | { type: 'constant'; value: number }
+  | { type: 'linear'; start: number; end: number; steps: number } // start -> end over `steps`, then flat
+  | { type: 'exponential'; start: number; end: number; decay: number } // start * decay^t, floored at end
+  | { type: 'step'; start: number; end: number; factor: number; every: number } // Multiplied by factor every `every` steps, floored at end
+  | { type: 'cosine'; start: number; end: number; steps: number }; // Half-cosine start -> end over `steps`, then flat
+
+export type ScheduleType = Schedule['type'];
+
+// 'relative' actions are LEFT / STRAIGHT / RIGHT turns from the snake's heading
+export type ActionMode = 'absolute' | 'relative';
+
+export type TabularAlgorithm = 'q-learning' | 'sarsa' | 'expected-sarsa' | 'double-q' | 'watkins-q-lambda' | 'sarsa-lambda';
+
+// State string the tabular agent keys its Q-table on; see TABULAR_ENCODERS
+export type TabularEncoding = 'basic' | 'items' | 'space' | 'tail' | 'full';
+
+export interface AgentConfig {
+  algorithm: TabularAlgorithm;
+  gamma: number;
+  lambda: number; // Trace decay, used by the (λ) algorithms only
+  actionMode: ActionMode; // Changing it starts the Q-table or network over
+  maskActions: boolean; // Never explore or bootstrap from moves that die instantly
+  stateEncoding: TabularEncoding; // Tabular agent only; each encoding keeps its own Q-table
+  demoMix: number; // Tabular: chance per step of an extra update on a demonstration step; DQN: share of each batch taken from them
+  alpha: Schedule;
+  epsilon: Schedule;
+}
+
+// How QLearningTrainer picks each episode's starting level; see ai/curriculum.ts
+export type CurriculumMode = 'off' | 'sequential' | 'mixed' | 'procedural';
+
+export interface CurriculumConfig {
+  mode: CurriculumMode;
+  promoteSuccessRate: number; // % of the stage's recent episodes that must clear a level...
+  promoteAvgScore: number; // ...and the average score they must reach, to move on to the next stage
+  window: number; // Stage episodes both are measured over
+  replayShare: number; // Mixed mode: chance an episode starts on an earlier stage instead
+}
+
+export interface CurriculumState {
+  config: CurriculumConfig;
+  stage: number; // 1-based
+  stageEpisodes: number; // Episodes started on the stage since reaching it
+  recentScores: number[]; // Last `window` of those
+  recentClears: boolean[];
+}
+
+// How an evaluation episode ended: it reached the level's portal, or died
+export type EvaluationOutcome = 'PORTAL' | DeathCause;
+
+/** Greedy-play results on one level, or across all of them; see ai/evaluation.ts. */
+export interface LevelEvaluation {
+  level: number | null; // null for the summary over every level
+  name: string;
+  episodes: number;
+  meanScore: number;
+  medianScore: number;
+  stdScore: number;
+  portalRate: number; // % of episodes that reached the portal
+  outcomes: Record<EvaluationOutcome, number>; // Episodes per outcome
+  stepsPerFood: number | null; // null if no food was eaten
+}
+
+export interface EvaluationReport {
+  agent: string;
+  createdAt: string;
+  seed: number; // The seed set is derived from it, so the same seed replays the same episodes
+  episodesPerLevel: number;
+  levels: LevelEvaluation[];
+  overall: LevelEvaluation;
+}
+
+// What every entrant of a tournament plays; see ai/tournament.ts
+export interface TournamentSetup {
+  levels: number[];
+  episodes: number; // Per level
+  seed: number;
+}
+
+export interface TournamentStanding {
+  id: string; // Stable per entrant, e.g. 'planner:astar' or 'checkpoint:12'
+  name: string;
+  summary: LevelEvaluation; // Over every episode it played
+  ci95: [number, number]; // 95% confidence interval of the mean score
+  bestRun: Replay; // Its highest-scoring episode
+  playedAt: string;
+}
+
+/** A run's standings, kept across tournaments that share the same setup. */
+export interface Leaderboard {
+  run: string;
+  setup: TournamentSetup;
+  standings: TournamentStanding[]; // Best mean score first
+  updatedAt: string;
+}
+
 export interface QLearningStats {
   episodes: number;
   epsilon: number;
   totalReward: number;
   qTableSize: number;
+  tableSizes?: Partial<Record<TabularEncoding, number>>; // States per encoding, tabular agent only
   bestScoreEver: number;
   avgScoreLast100: number;
   currentLevel: number;
   totalStepsEver: number;
   levelSuccessRate: number;
+  demoAgreement?: number | null; // % of demonstration steps where the greedy action matches the demo's; null without demos
+  curriculum?: CurriculumState;
   scoreHistory: number[]; // For charts
   epsilonHistory: number[]; // For charts
 }
+
+export interface GeneticStats {
+  generation: number;
+  populationSize: number;
+  aliveCount: number;
+  bestFitnessEver: number;
+  bestScoreEver: number;
+  totalStepsEver: number;
+  bestFitnessHistory: number[]; // Per generation, for charts
+  meanFitnessHistory: number[];
+  worstFitnessHistory: number[];
+}
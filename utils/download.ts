@@ -0,0 +1,9 @@
+/** Triggers a browser download of in-memory content. */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
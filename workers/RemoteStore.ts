@@ -0,0 +1,48 @@
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { StoreChanges } from './protocol';
+
+/**
+ * Store for code running in a worker, where localStorage doesn't exist. Starts from a
+ * snapshot sent by the page and collects writes until flush() hands them back.
+ */
+export class RemoteStore implements KeyValueStore {
+  private data: Map<string, string>;
+  private changed = new Set<string>();
+
+  constructor(entries: Record<string, string> = {}) {
+    this.data = new Map(Object.entries(entries));
+  }
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+    this.changed.add(key);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+    this.changed.add(key);
+  }
+
+  /** Returns the writes since the last flush, or null if there were none. */
+  flush(): StoreChanges | null {
+    if (this.changed.size === 0) return null;
+    const changes: StoreChanges = { set: {}, removed: [] };
+    this.changed.forEach(key => {
+      const value = this.data.get(key);
+      if (value === undefined) changes.removed.push(key);
+      else changes.set[key] = value;
+    });
+    this.changed.clear();
+    return changes;
+  }
+}
+
+/** Applies a worker checkpoint to a real store. */
+export const applyStoreChanges = (store: KeyValueStore, changes: StoreChanges): void => {
+  Object.entries(changes.set).forEach(([key, value]) => store.setItem(key, value));
+  changes.removed.forEach(key => store.removeItem(key));
+};
@@ -0,0 +1,64 @@
+import { SnakeGame } from '../game/SnakeGame';
+import { ArenaGame } from '../game/ArenaGame';
+import { AgentConfig, ArenaSnake, CurriculumConfig, Demonstration, GameState, QLearningStats } from '../types';
+import { QValueAgentKind } from '../ai/QValueAgent';
+
+/** Everything needed to draw a board without the SnakeGame instance behind it. */
+export interface BoardFrame {
+  state: GameState;
+  width: number;
+  height: number;
+  levelName: string;
+  snakes?: ArenaSnake[]; // Arena boards only: every snake, drawn instead of state.snake
+}
+
+export const toBoardFrame = (game: SnakeGame): BoardFrame => ({
+  state: game.state,
+  width: game.width,
+  height: game.height,
+  levelName: game.levelDef.name
+});
+
+// An arena board as a snakeless single-game state plus its snakes
+export const toArenaFrame = (arena: ArenaGame): BoardFrame => ({
+  state: {
+    snake: [],
+    food: arena.state.food,
+    specialItems: arena.state.specialItems,
+    walls: arena.state.walls,
+    score: Math.max(...arena.state.snakes.map(s => s.score)),
+    level: arena.state.level,
+    itemsCollectedInLevel: 0,
+    isGameOver: arena.state.isOver,
+    steps: arena.state.steps,
+    slowEffectSteps: 0,
+    portalOpen: false,
+    portalPoint: null
+  },
+  width: arena.width,
+  height: arena.height,
+  levelName: arena.levelDef.name,
+  snakes: arena.state.snakes
+});
+
+// Key/value pairs written by the worker since its last checkpoint message
+export interface StoreChanges {
+  set: Record<string, string>;
+  removed: string[];
+}
+
+export type TrainingWorkerRequest =
+  | { type: 'init'; agent: QValueAgentKind; entries: Record<string, string>; demos: Demonstration[] } // Load that kind of agent from these store entries
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'step'; steps: number } // Run a fixed number of steps, then stay paused
+  | { type: 'setStepsPerTick'; stepsPerTick: number }
+  | { type: 'setConfig'; config: AgentConfig }
+  | { type: 'setCurriculum'; config: CurriculumConfig }
+  | { type: 'flush' }; // Save now and send a checkpoint
+
+export type TrainingWorkerMessage =
+  | { type: 'stats'; stats: QLearningStats; running: boolean; stepsPerSecond: number }
+  | { type: 'frame'; frame: BoardFrame }
+  | { type: 'checkpoint'; changes: StoreChanges }
+  | { type: 'error'; message: string };
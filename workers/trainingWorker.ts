@@ -0,0 +1,123 @@
+import { QValueAgent, createQValueAgent } from '../ai/QValueAgent';
+import { QLearningTrainer } from '../ai/QLearningTrainer';
+import { RemoteStore } from './RemoteStore';
+import { TrainingWorkerMessage, TrainingWorkerRequest, toBoardFrame } from './protocol';
+
+// The DOM lib types `self` as a Window; this is the part of the worker scope we use
+const scope = self as unknown as {
+  postMessage(message: TrainingWorkerMessage): void;
+  onmessage: ((e: MessageEvent<TrainingWorkerRequest>) => void) | null;
+};
+
+const STATS_INTERVAL_MS = 100;
+const FRAME_INTERVAL_MS = 250;
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+let store = new RemoteStore();
+let agent: QValueAgent = createQValueAgent('qlearning', { store });
+let trainer = new QLearningTrainer(agent);
+let running = false;
+let stepsPerTick = 7500;
+let loopScheduled = false;
+
+let lastStatsAt = 0;
+let lastFrameAt = 0;
+let lastCheckpointAt = 0;
+let rateWindowStart = Date.now();
+let rateWindowSteps = 0;
+let stepsPerSecond = 0;
+
+const post = (message: TrainingWorkerMessage) => scope.postMessage(message);
+
+const postStats = () => {
+  post({ type: 'stats', stats: trainer.getStats(), running, stepsPerSecond });
+};
+
+const checkpoint = () => {
+  trainer.save();
+  const changes = store.flush();
+  if (changes) post({ type: 'checkpoint', changes });
+};
+
+const runSteps = (steps: number) => {
+  trainer.tick(steps);
+  rateWindowSteps += steps;
+  const now = Date.now();
+  if (now - rateWindowStart >= 1000) {
+    stepsPerSecond = Math.round(rateWindowSteps / ((now - rateWindowStart) / 1000));
+    rateWindowStart = now;
+    rateWindowSteps = 0;
+  }
+  // Stats and frames are throttled; posting every tick would flood the page
+  if (now - lastStatsAt >= STATS_INTERVAL_MS) { lastStatsAt = now; postStats(); }
+  if (now - lastFrameAt >= FRAME_INTERVAL_MS) { lastFrameAt = now; post({ type: 'frame', frame: toBoardFrame(agent.game) }); }
+  if (now - lastCheckpointAt >= CHECKPOINT_INTERVAL_MS) { lastCheckpointAt = now; checkpoint(); }
+};
+
+// One tick per macrotask, so control messages get handled between ticks
+const loop = () => {
+  loopScheduled = false;
+  if (!running) return;
+  runSteps(stepsPerTick);
+  scheduleLoop();
+};
+
+const scheduleLoop = () => {
+  if (loopScheduled) return;
+  loopScheduled = true;
+  setTimeout(loop, 0);
+};
+
+const handle = (request: TrainingWorkerRequest) => {
+  switch (request.type) {
+    case 'init':
+      store = new RemoteStore(request.entries);
+      agent = createQValueAgent(request.agent, { store });
+      agent.setDemonstrations(request.demos);
+      trainer = new QLearningTrainer(agent, QLearningTrainer.loadStats(agent));
+      postStats();
+      post({ type: 'frame', frame: toBoardFrame(agent.game) });
+      break;
+    case 'start':
+      running = true;
+      rateWindowStart = Date.now();
+      rateWindowSteps = 0;
+      scheduleLoop();
+      postStats();
+      break;
+    case 'pause':
+      running = false;
+      stepsPerSecond = 0;
+      postStats();
+      break;
+    case 'step':
+      running = false;
+      runSteps(Math.max(1, Math.floor(request.steps)));
+      postStats();
+      post({ type: 'frame', frame: toBoardFrame(agent.game) });
+      break;
+    case 'setStepsPerTick':
+      stepsPerTick = Math.max(1, Math.floor(request.stepsPerTick));
+      break;
+    case 'setConfig':
+      agent.setConfig(request.config);
+      postStats();
+      break;
+    case 'setCurriculum':
+      trainer.setCurriculum(request.config);
+      postStats();
+      break;
+    case 'flush':
+      checkpoint();
+      break;
+  }
+};
+
+scope.onmessage = e => {
+  try {
+    handle(e.data);
+  } catch (err) {
+    running = false;
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};